@@ -1,6 +1,28 @@
-import React, { useState, useEffect, FormEvent } from 'react';
-import { fetchStockData } from './services/stockService';
+import React, { useState, useEffect, useMemo, useRef, FormEvent } from 'react';
+import { fetchAdjustedHistory, fetchExchangeTimeZone, fetchHistoryEvents, fetchStockData, FetchResult } from './services/stockService';
+import { basisClose, RETURN_BASIS_OPTIONS, ReturnBasis } from './services/priceAdjustments';
+import { addDays, isIsoDate, todayIso } from './utils/dateRange';
+import { isAbortError } from './services/http';
+import {
+  formatBarTime,
+  intradayRangeError,
+  isIntradayInterval,
+  isPeriodAllowed,
+  TIME_ZONE_OPTIONS,
+  TimeZoneMode,
+} from './services/marketSessions';
 import StockDataTable from './components/StockDataTable';
+import PriceChart, { ChartMarker } from './components/PriceChart';
+import PatternScanner, { BIAS_COLORS } from './components/PatternScanner';
+import { getPatternDefinition, PATTERN_DEFINITIONS, PatternType, scanPatterns } from './services/patterns';
+import EventMarkerToggles, { EVENT_COLORS, EVENT_LABELS } from './components/EventMarkerToggles';
+import { buildChartEvents, CHART_EVENT_KINDS, ChartEventKind } from './services/chartEvents';
+import PerformanceStats from './components/PerformanceStats';
+import DrawdownAnalysis from './components/DrawdownAnalysis';
+import DistributionDiagnostics from './components/DistributionDiagnostics';
+import { simpleReturns } from './services/performance';
+import IndicatorControls from './components/IndicatorControls';
+import { computeIndicator, IndicatorConfig } from './services/indicators';
 import LoadingSpinner from './components/LoadingSpinner';
 import JsonViewer from './components/JsonViewer';
 import CompanyInfo from './components/CompanyInfo';
@@ -13,8 +35,17 @@ import ToolsDisplay from './components/ToolsDisplay';
 import Sidebar from './components/Sidebar';
 import RiskEngineDisplay from './components/RiskEngineDisplay';
 import VolatilityLab from './components/VolatilityLab';
+import PerformanceComparison from './components/PerformanceComparison';
+import SeasonalityHeatmap from './components/SeasonalityHeatmap';
+import CacheManager from './components/CacheManager';
+import LocalDataImport from './components/LocalDataImport';
+import CacheStatus from './components/CacheStatus';
+import ValidationWarnings from './components/ValidationWarnings';
+import { CorporateActions, NewsArticle } from './types';
 
 const PERIOD_OPTIONS = [
+  { value: '1d', label: '1 Day' },
+  { value: '5d', label: '5 Days' },
   { value: '1mo', label: '1 Month' },
   { value: '3mo', label: '3 Months' },
   { value: '6mo', label: '6 Months' },
@@ -24,14 +55,23 @@ const PERIOD_OPTIONS = [
   { value: '5y', label: '5 Years' },
   { value: '10y', label: '10 Years' },
   { value: 'max', label: 'Max' },
+  { value: 'custom', label: 'Custom Range' },
 ];
 
 const INTERVAL_OPTIONS = [
+  { value: '1m', label: '1 Minute' },
+  { value: '5m', label: '5 Minutes' },
+  { value: '15m', label: '15 Minutes' },
+  { value: '30m', label: '30 Minutes' },
+  { value: '1h', label: 'Hourly' },
   { value: '1d', label: 'Daily' },
   { value: '1wk', label: 'Weekly' },
   { value: '1mo', label: 'Monthly' },
 ];
 
+// Episode lengths in the drawdown table are counted in bars of the selected interval.
+const DRAWDOWN_UNITS: { [interval: string]: string } = { '1d': 'days', '1wk': 'weeks', '1mo': 'months' };
+
 const DATA_VIEWS = new Set(['history', 'info', 'news', 'actions', 'financials', 'recommendations', 'holders']);
 
 const App: React.FC = () => {
@@ -44,7 +84,30 @@ const App: React.FC = () => {
 
   // State for history options
   const [period, setPeriod] = useState<string>('1y');
+  // Used when period is 'custom'; both dates are inclusive.
+  const [startDate, setStartDate] = useState<string>(() => addDays(todayIso(), -365));
+  const [endDate, setEndDate] = useState<string>(() => todayIso());
   const [interval, setInterval] = useState<string>('1d');
+  const [returnBasis, setReturnBasis] = useState<ReturnBasis>('price');
+  // Intraday-only options.
+  const [timeZoneMode, setTimeZoneMode] = useState<TimeZoneMode>('exchange');
+  const [extendedHours, setExtendedHours] = useState<boolean>(false);
+  const [exchangeTimeZone, setExchangeTimeZone] = useState<string | undefined>(undefined);
+  // Technical indicators drawn on the chart and, optionally, listed in the table.
+  const [indicators, setIndicators] = useState<IndicatorConfig[]>([]);
+  const [showIndicatorColumns, setShowIndicatorColumns] = useState<boolean>(false);
+  const [patternTypes, setPatternTypes] = useState<PatternType[]>(() => PATTERN_DEFINITIONS.map(d => d.type));
+  const [showPatternMarkers, setShowPatternMarkers] = useState<boolean>(false);
+  const [historyEvents, setHistoryEvents] = useState<{ actions: CorporateActions; news: NewsArticle[] } | null>(null);
+  const [eventKinds, setEventKinds] = useState<ChartEventKind[]>(() => CHART_EVENT_KINDS.map(k => k.kind));
+
+  // Bumped whenever the market-data provider changes so the current view refetches.
+  const [dataSourceVersion, setDataSourceVersion] = useState<number>(0);
+
+  // Where the currently displayed payload came from (for the "cached as of" indicator).
+  const [dataStatus, setDataStatus] = useState<Omit<FetchResult, 'data'> | null>(null);
+  const [refreshNonce, setRefreshNonce] = useState<number>(0);
+  const lastRefreshNonce = useRef<number>(0);
 
   useEffect(() => {
     // Only fetch data for the 'Data' views. Tools handle their own data.
@@ -52,37 +115,99 @@ const App: React.FC = () => {
       setLoading(false);
       setError(null);
       setResponseData(null);
+      setDataStatus(null);
       return;
     }
 
+    const forceRefresh = refreshNonce !== lastRefreshNonce.current;
+    lastRefreshNonce.current = refreshNonce;
+    // Aborted when the ticker/view/options change so a slow earlier response can never
+    // overwrite a newer one.
+    const controller = new AbortController();
+
+    const applyResult = ({ data, ...status }: FetchResult) => {
+      if (controller.signal.aborted) return;
+      setDataStatus(status);
+      if (activeView === 'history' && Array.isArray(data)) {
+        // The API returns data in ascending order, let's reverse it to show most recent first
+        setResponseData([...data].reverse());
+      } else {
+        setResponseData(data);
+      }
+    };
+
     const loadData = async () => {
       try {
         setLoading(true);
         setError(null);
         setResponseData(null); // Clear previous data
-        const { data } = await fetchStockData(ticker, activeView, period, interval);
-
-        if (activeView === 'history' && Array.isArray(data)) {
-          // The API returns data in ascending order, let's reverse it to show most recent first
-          setResponseData(data.reverse());
-        } else {
-          setResponseData(data);
+        setDataStatus(null);
+        const isCustomRange = activeView === 'history' && period === 'custom';
+        if (isCustomRange && (!isIsoDate(startDate) || !isIsoDate(endDate) || startDate > endDate)) {
+          throw new Error('Choose a valid date range: the start date must be on or before the end date.');
         }
+        const rangeError = isCustomRange ? intradayRangeError(interval, startDate, endDate) : null;
+        if (rangeError) throw new Error(rangeError);
+        const intraday = activeView === 'history' && isIntradayInterval(interval);
+        const fetchOptions = {
+          signal: controller.signal,
+          forceRefresh,
+          onRevalidate: applyResult,
+          prepost: extendedHours,
+          ...(isCustomRange ? { start: startDate, end: endDate } : {}),
+        };
+        const [result, timeZone] = await Promise.all([
+          activeView === 'history'
+            ? fetchAdjustedHistory(ticker, period, interval, fetchOptions)
+            : fetchStockData(ticker, activeView, period, interval, fetchOptions),
+          intraday ? fetchExchangeTimeZone(ticker, controller.signal) : Promise.resolve(undefined),
+        ]);
+        if (!controller.signal.aborted) setExchangeTimeZone(timeZone);
+        applyResult(result);
       } catch (err) {
+        if (isAbortError(err)) return;
         if (err instanceof Error) {
             setError(err.message);
         } else {
             setError('An unknown error occurred.');
         }
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
 
     if (ticker) {
       loadData();
     }
-  }, [ticker, activeView, period, interval]);
+
+    return () => {
+      controller.abort();
+    };
+  }, [ticker, activeView, period, interval, startDate, endDate, extendedHours, dataSourceVersion, refreshNonce]);
+
+  // Actions and headlines for the chart markers load alongside the history and never block it.
+  useEffect(() => {
+    setHistoryEvents(null);
+    if (activeView !== 'history' || !ticker) return;
+    const controller = new AbortController();
+    fetchHistoryEvents(ticker, controller.signal)
+      .then(events => {
+        if (!controller.signal.aborted) setHistoryEvents(events);
+      })
+      .catch(err => {
+        if (!isAbortError(err)) console.warn(`Could not load chart events for ${ticker}:`, err);
+      });
+    return () => controller.abort();
+  }, [ticker, activeView, dataSourceVersion]);
+
+  // Intraday intervals only cover recent history, so fall back to the longest period allowed.
+  const handleIntervalChange = (value: string) => {
+    setInterval(value);
+    if (period !== 'custom' && !isPeriodAllowed(period, value)) {
+      const allowed = PERIOD_OPTIONS.filter(opt => opt.value !== 'custom' && isPeriodAllowed(opt.value, value));
+      setPeriod(allowed[allowed.length - 1]?.value ?? '1d');
+    }
+  };
 
   const handleTickerSubmit = (e: FormEvent) => {
     e.preventDefault();
@@ -92,12 +217,83 @@ const App: React.FC = () => {
     }
   };
 
+  // The table lists history newest first; the chart wants it oldest first.
+  const historyAscending = useMemo(
+    () => (activeView === 'history' && Array.isArray(responseData) ? [...responseData].reverse() : []),
+    [activeView, responseData]
+  );
+
+  const indicatorOutputs = useMemo(
+    () => (historyAscending.length > 0 ? indicators.map(config => computeIndicator(historyAscending, config, interval)) : []),
+    [historyAscending, indicators, interval]
+  );
+
+  const historyCloses = useMemo(
+    () => historyAscending.map(bar => basisClose(bar, returnBasis)),
+    [historyAscending, returnBasis]
+  );
+  const historyDates = useMemo(() => historyAscending.map(bar => bar.Date), [historyAscending]);
+  const historyReturns = useMemo(() => simpleReturns(historyCloses), [historyCloses]);
+
+  const patternMatches = useMemo(() => scanPatterns(historyAscending), [historyAscending]);
+  // Bullish signals sit under the bar, bearish and neutral ones over it.
+  const patternMarkers = useMemo((): ChartMarker[] => {
+    if (!showPatternMarkers) return [];
+    const selected = new Set(patternTypes);
+    return patternMatches.filter(m => selected.has(m.type)).map(m => {
+      const def = getPatternDefinition(m.type);
+      return {
+        index: m.index,
+        position: def.bias === 'bullish' ? 'below' : 'above',
+        color: BIAS_COLORS[def.bias],
+        label: def.code,
+        title: m.gap ? `${def.label} ${(m.gap.sizePct * 100).toFixed(2)}% (${m.gap.filledIndex === null ? 'open' : 'filled'})` : def.label,
+      };
+    });
+  }, [patternMatches, patternTypes, showPatternMarkers]);
+
+  const chartEvents = useMemo(
+    () => (historyEvents ? buildChartEvents(historyAscending, historyEvents.actions, historyEvents.news) : []),
+    [historyAscending, historyEvents]
+  );
+  const eventCounts = useMemo(() => {
+    if (!historyEvents) return null;
+    const counts: { [kind in ChartEventKind]?: number } = {};
+    chartEvents.forEach(event => { counts[event.kind] = (counts[event.kind] ?? 0) + 1; });
+    return counts;
+  }, [chartEvents, historyEvents]);
+  // Corporate actions sit under the bar, headlines over it; news markers open the article.
+  const chartMarkers = useMemo((): ChartMarker[] => {
+    const visible = new Set(eventKinds);
+    const eventMarkers = chartEvents.filter(event => visible.has(event.kind)).map((event): ChartMarker => {
+      const url = event.url;
+      return {
+        index: event.index,
+        position: event.kind === 'news' ? 'above' : 'below',
+        color: EVENT_COLORS[event.kind],
+        label: EVENT_LABELS[event.kind],
+        title: event.summary,
+        ...(url ? { onClick: () => window.open(url, '_blank', 'noopener,noreferrer') } : {}),
+      };
+    });
+    return [...eventMarkers, ...patternMarkers];
+  }, [chartEvents, eventKinds, patternMarkers]);
+
+  const handleOpenLocalDataset = (symbol: string) => {
+    setInputTicker(symbol);
+    setTicker(symbol);
+    setActiveView('history');
+  };
+
   const getTitle = () => {
     const typeName = activeView.charAt(0).toUpperCase() + activeView.slice(1);
     switch (activeView) {
         case 'history': {
-            const periodLabel = PERIOD_OPTIONS.find(p => p.value === period)?.label || period;
             const intervalLabel = INTERVAL_OPTIONS.find(i => i.value === interval)?.label || interval;
+            if (period === 'custom') {
+                return `Historical Data ${startDate} to ${endDate} (${intervalLabel}) for ${ticker.toUpperCase()}`;
+            }
+            const periodLabel = PERIOD_OPTIONS.find(p => p.value === period)?.label || period;
             return `${periodLabel} Historical Data (${intervalLabel}) for ${ticker.toUpperCase()}`;
         }
         case 'info':
@@ -118,6 +314,14 @@ const App: React.FC = () => {
             return `Portfolio Risk Engine (VaR/ES)`;
         case 'vol_corr_lab':
             return `Volatility & Correlation Laboratory`;
+        case 'compare':
+            return `Relative Performance Comparison`;
+        case 'seasonality':
+            return `Return Seasonality for ${ticker.toUpperCase()}`;
+        case 'cache':
+            return `Cached Responses`;
+        case 'local_data':
+            return `Imported Datasets`;
         default:
             return `${typeName} Data for ${ticker.toUpperCase()}`;
     }
@@ -134,6 +338,18 @@ const App: React.FC = () => {
     if (activeView === 'vol_corr_lab') {
         return <VolatilityLab />;
     }
+    if (activeView === 'compare') {
+        return <PerformanceComparison />;
+    }
+    if (activeView === 'seasonality') {
+        return <SeasonalityHeatmap ticker={ticker} />;
+    }
+    if (activeView === 'cache') {
+        return <CacheManager />;
+    }
+    if (activeView === 'local_data') {
+        return <LocalDataImport onOpen={handleOpenLocalDataset} />;
+    }
 
     if (loading) {
       return <LoadingSpinner />;
@@ -166,7 +382,68 @@ const App: React.FC = () => {
     if (responseData) {
       switch(activeView) {
         case 'history':
-            return Array.isArray(responseData) ? <StockDataTable data={responseData} ticker={ticker} /> : null;
+            return Array.isArray(responseData) ? (
+                <div className="space-y-6">
+                    <IndicatorControls
+                        indicators={indicators}
+                        onChange={setIndicators}
+                        showColumns={showIndicatorColumns}
+                        onShowColumnsChange={setShowIndicatorColumns}
+                    />
+                    <EventMarkerToggles
+                        visibleKinds={eventKinds}
+                        onChange={setEventKinds}
+                        counts={eventCounts}
+                    />
+                    <PriceChart
+                        data={historyAscending}
+                        interval={interval}
+                        timeZoneMode={timeZoneMode}
+                        exchangeTimeZone={exchangeTimeZone}
+                        indicators={indicatorOutputs}
+                        markers={chartMarkers}
+                    />
+                    <PatternScanner
+                        matches={patternMatches}
+                        closes={historyCloses}
+                        dates={historyDates}
+                        formatDate={date => formatBarTime(date, interval, timeZoneMode, exchangeTimeZone)}
+                        selectedTypes={patternTypes}
+                        onSelectedTypesChange={setPatternTypes}
+                        showMarkers={showPatternMarkers}
+                        onShowMarkersChange={setShowPatternMarkers}
+                        ticker={ticker}
+                        title={`Candlestick Patterns & Gaps for ${ticker.toUpperCase()}`}
+                    />
+                    <PerformanceStats
+                        data={historyAscending}
+                        interval={interval}
+                        basis={returnBasis}
+                        timeZoneMode={timeZoneMode}
+                        exchangeTimeZone={exchangeTimeZone}
+                    />
+                    <DrawdownAnalysis
+                        values={historyCloses}
+                        dates={historyDates}
+                        formatDate={date => formatBarTime(date, interval, timeZoneMode, exchangeTimeZone)}
+                        unit={DRAWDOWN_UNITS[interval] ?? 'bars'}
+                        title={`Drawdowns for ${ticker.toUpperCase()}`}
+                    />
+                    <DistributionDiagnostics
+                        returns={historyReturns}
+                        title={`Return Distribution for ${ticker.toUpperCase()}`}
+                    />
+                    <StockDataTable
+                        data={responseData}
+                        ticker={ticker}
+                        basis={returnBasis}
+                        interval={interval}
+                        timeZoneMode={timeZoneMode}
+                        exchangeTimeZone={exchangeTimeZone}
+                        indicators={showIndicatorColumns ? indicatorOutputs : []}
+                    />
+                </div>
+            ) : null;
         case 'info':
             return responseData ? <CompanyInfo data={responseData} /> : null;
         case 'news':
@@ -189,7 +466,12 @@ const App: React.FC = () => {
 
   return (
     <div className="flex h-screen bg-gray-900 text-white font-sans">
-      <Sidebar activeView={activeView} onViewChange={setActiveView} isLoading={loading} />
+      <Sidebar
+        activeView={activeView}
+        onViewChange={setActiveView}
+        isLoading={loading}
+        onDataSourceChange={() => setDataSourceVersion(v => v + 1)}
+      />
       
       <main className="flex-1 flex flex-col overflow-y-auto">
         <div className="p-4 sm:p-6 lg:p-8 flex-grow">
@@ -199,7 +481,7 @@ const App: React.FC = () => {
               </p>
           </header>
 
-          {!['var_es_engine', 'vol_corr_lab'].includes(activeView) && (
+          {!['var_es_engine', 'vol_corr_lab', 'compare', 'cache', 'local_data'].includes(activeView) && (
             <div className="max-w-xl mb-8 space-y-4">
                 <form onSubmit={handleTickerSubmit} className="flex items-center gap-2">
                     <label htmlFor="ticker-input" className="sr-only">Stock Ticker</label>
@@ -223,7 +505,7 @@ const App: React.FC = () => {
                 </form>
                 
                 {activeView === 'history' && (
-                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
                         <div>
                             <label htmlFor="period-select" className="sr-only">Period</label>
                             <select
@@ -234,7 +516,11 @@ const App: React.FC = () => {
                                 className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
                                 aria-label="Select time period"
                             >
-                                {PERIOD_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                                {PERIOD_OPTIONS.map(opt => (
+                                    <option key={opt.value} value={opt.value} disabled={!isPeriodAllowed(opt.value, interval)}>
+                                        {opt.label}
+                                    </option>
+                                ))}
                             </select>
                         </div>
                         <div>
@@ -242,7 +528,7 @@ const App: React.FC = () => {
                             <select
                                 id="interval-select"
                                 value={interval}
-                                onChange={e => setInterval(e.target.value)}
+                                onChange={e => handleIntervalChange(e.target.value)}
                                 disabled={loading}
                                 className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
                                 aria-label="Select data interval"
@@ -250,11 +536,85 @@ const App: React.FC = () => {
                                 {INTERVAL_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
                             </select>
                         </div>
+                        <div>
+                            <label htmlFor="basis-select" className="sr-only">Return Basis</label>
+                            <select
+                                id="basis-select"
+                                value={returnBasis}
+                                onChange={e => setReturnBasis(e.target.value as ReturnBasis)}
+                                className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
+                                aria-label="Select return basis"
+                            >
+                                {RETURN_BASIS_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                            </select>
+                        </div>
+                        {period === 'custom' && (
+                            <div className="sm:col-span-3 grid grid-cols-2 gap-2">
+                                <div>
+                                    <label htmlFor="start-date" className="block mb-1 text-xs text-gray-400">From</label>
+                                    <input
+                                        id="start-date"
+                                        type="date"
+                                        value={startDate}
+                                        max={endDate}
+                                        onChange={e => setStartDate(e.target.value)}
+                                        disabled={loading}
+                                        className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="end-date" className="block mb-1 text-xs text-gray-400">To</label>
+                                    <input
+                                        id="end-date"
+                                        type="date"
+                                        value={endDate}
+                                        min={startDate}
+                                        max={todayIso()}
+                                        onChange={e => setEndDate(e.target.value)}
+                                        disabled={loading}
+                                        className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
+                                    />
+                                </div>
+                            </div>
+                        )}
+                        {isIntradayInterval(interval) && (
+                            <div className="sm:col-span-3 flex flex-wrap items-center gap-4">
+                                <div>
+                                    <label htmlFor="timezone-select" className="sr-only">Time Zone</label>
+                                    <select
+                                        id="timezone-select"
+                                        value={timeZoneMode}
+                                        onChange={e => setTimeZoneMode(e.target.value as TimeZoneMode)}
+                                        className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
+                                        aria-label="Select display time zone"
+                                    >
+                                        {TIME_ZONE_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                                    </select>
+                                </div>
+                                <label className="flex items-center gap-2 text-sm text-gray-300">
+                                    <input
+                                        type="checkbox"
+                                        checked={extendedHours}
+                                        onChange={e => setExtendedHours(e.target.checked)}
+                                        disabled={loading}
+                                        className="rounded bg-gray-700 border-gray-600"
+                                    />
+                                    Include pre/post-market
+                                </label>
+                            </div>
+                        )}
                     </div>
                 )}
             </div>
           )}
 
+          {dataStatus && !loading && (
+            <>
+              <CacheStatus status={dataStatus} onRefresh={() => setRefreshNonce(n => n + 1)} />
+              <ValidationWarnings warnings={dataStatus.warnings} />
+            </>
+          )}
+
           <div className="bg-gray-800/50 p-6 rounded-xl backdrop-blur-sm border border-gray-700">
               {renderContent()}
           </div>
@@ -1,12 +1,10 @@
 import React from 'react';
 import { exportToCsv } from '../utils/csvExporter';
 import ExportButton from './ExportButton';
+import { CorporateActions } from '../types';
 
 interface ActionsDisplayProps {
-  data: {
-    dividends: { [date: string]: number };
-    splits: { [date: string]: number };
-  };
+  data: CorporateActions;
   ticker: string;
 }
 
@@ -38,7 +36,7 @@ const ActionCard: React.FC<{ title: string; children: React.ReactNode; icon: Rea
 );
 
 const ActionsDisplay: React.FC<ActionsDisplayProps> = ({ data, ticker }) => {
-  const { dividends, splits } = data;
+  const { dividends, splits }: CorporateActions = data;
 
   const dividendHistory = dividends ? Object.entries(dividends)
     .map(([date, amount]) => ({ date, amount }))
@@ -0,0 +1,103 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CacheEntry, clearCache, deleteCacheEntry, getTtl, listCacheEntries } from '../services/responseCache';
+import LoadingSpinner from './LoadingSpinner';
+
+const formatAge = (storedAt: number): string => {
+  const minutes = Math.floor((Date.now() - storedAt) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} days ago`;
+};
+
+const formatSize = (data: any): string => {
+  const bytes = JSON.stringify(data)?.length ?? 0;
+  if (bytes >= 1e6) return `${(bytes / 1e6).toFixed(1)} MB`;
+  if (bytes >= 1e3) return `${(bytes / 1e3).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+const CacheManager: React.FC = () => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setEntries(await listCacheEntries());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleDelete = async (key: string) => {
+    await deleteCacheEntry(key);
+    refresh();
+  };
+
+  const handleClear = async () => {
+    await clearCache();
+    refresh();
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  if (entries.length === 0) {
+    return <p className="text-center text-gray-400 py-8">The response cache is empty.</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <p className="text-sm text-gray-400">{entries.length} cached responses</p>
+        <button
+          onClick={handleClear}
+          className="rounded-md bg-red-600/70 hover:bg-red-600 px-3 py-1.5 text-xs font-semibold text-white transition-colors"
+        >
+          Clear All
+        </button>
+      </div>
+      <div className="overflow-x-auto shadow-2xl rounded-lg">
+        <table className="min-w-full divide-y divide-gray-700 bg-gray-800">
+          <thead className="bg-gray-700/50">
+            <tr>
+              {['Ticker', 'Data Type', 'Period / Interval', 'Source', 'Stored', 'Size', ''].map(header => (
+                <th key={header} scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-700">
+            {entries.map(entry => {
+              const isStale = Date.now() - entry.storedAt > getTtl(entry.dataType, entry.interval, entry.period);
+              return (
+                <tr key={entry.key} className="hover:bg-gray-700/60 transition-colors duration-200">
+                  <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-blue-300">{entry.ticker}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-300">{entry.dataType}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-400">
+                    {entry.period ? `${entry.period} / ${entry.interval}` : '—'}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-xs text-gray-500" title={entry.provider}>{entry.provider.split(':')[0]}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm">
+                    <span className={isStale ? 'text-yellow-400/90' : 'text-green-400/90'}>{formatAge(entry.storedAt)}</span>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-400 font-mono">{formatSize(entry.data)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right">
+                    <button onClick={() => handleDelete(entry.key)} className="text-xs text-red-400 hover:text-red-300 font-semibold">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CacheManager;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { FetchResult } from '../services/stockService';
+
+interface CacheStatusProps {
+  status: Omit<FetchResult, 'data'>;
+  onRefresh: () => void;
+}
+
+const formatTimestamp = (epochMs: number) =>
+  new Date(epochMs).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const CacheStatus: React.FC<CacheStatusProps> = ({ status, onRefresh }) => (
+  <div className="flex items-center justify-end gap-3 mb-3 text-xs text-gray-400" role="status">
+    {status.importedFrom ? (
+      <span className="flex items-center gap-2">
+        <span className="w-2 h-2 rounded-full bg-purple-400" aria-hidden="true"></span>
+        Imported from {status.importedFrom} on {formatTimestamp(status.asOf)}
+      </span>
+    ) : status.fromCache ? (
+      <span className="flex items-center gap-2">
+        <span className={`w-2 h-2 rounded-full ${status.stale ? 'bg-yellow-400' : 'bg-green-400'}`} aria-hidden="true"></span>
+        Cached as of {formatTimestamp(status.asOf)}
+        {status.stale && <span className="text-yellow-400/90">(stale, refreshing)</span>}
+      </span>
+    ) : (
+      <span className="flex items-center gap-2">
+        <span className="w-2 h-2 rounded-full bg-blue-400" aria-hidden="true"></span>
+        Live as of {formatTimestamp(status.asOf)}
+      </span>
+    )}
+    <button onClick={onRefresh} className="text-blue-400 hover:text-blue-300 font-semibold">
+      Refresh
+    </button>
+  </div>
+);
+
+export default CacheStatus;
@@ -1,9 +1,10 @@
 import React, { useState } from 'react';
 import { exportToCsv } from '../utils/csvExporter';
 import ExportButton from './ExportButton';
+import { CompanyOfficer, CompanyProfile } from '../types';
 
 interface CompanyInfoProps {
-  data: any;
+  data: CompanyProfile;
 }
 
 const InfoCard: React.FC<{ title: string; children: React.ReactNode; className?: string, onExport?: () => void }> = ({ title, children, className, onExport }) => (
@@ -45,7 +46,7 @@ const CompanyInfo: React.FC<CompanyInfoProps> = ({ data }) => {
   }
 
   const handleExport = () => {
-    const exportData: Array<{ Section: string; Metric: string; Value: any }> = [];
+    const exportData: Array<{ Section: string; Metric: string; Value: string | number }> = [];
     
     // Key Financials
     const financials = [
@@ -64,7 +65,7 @@ const CompanyInfo: React.FC<CompanyInfoProps> = ({ data }) => {
     exportData.push({ Section: 'Business Summary', Metric: 'Summary', Value: data.longBusinessSummary || '' });
 
     // Executives
-    data.companyOfficers?.forEach((officer: any) => {
+    data.companyOfficers?.forEach((officer: CompanyOfficer) => {
         if(officer.name && officer.title) {
             exportData.push({ Section: 'Key Executives', Metric: officer.name, Value: officer.title });
         }
@@ -145,7 +146,7 @@ const CompanyInfo: React.FC<CompanyInfoProps> = ({ data }) => {
       {data.companyOfficers && data.companyOfficers.length > 0 && (
           <InfoCard title="Key Executives">
             <ul className="space-y-3">
-              {data.companyOfficers.slice(0, 5).map((officer: any, index: number) => officer.name && officer.title && (
+              {data.companyOfficers.slice(0, 5).map((officer: CompanyOfficer, index: number) => officer.name && officer.title && (
                 <li key={index} className="flex flex-col sm:flex-row justify-between items-start sm:items-center text-sm p-2 rounded-md hover:bg-gray-700/50">
                   <span className="font-medium text-gray-200">{officer.name}</span>
                   <span className="text-gray-400 sm:text-right">{officer.title}</span>
@@ -0,0 +1,44 @@
+import React from 'react';
+import { HistoryFetchFailure } from '../services/stockService';
+import { FilledBarsSummary } from '../services/historyAlignment';
+
+interface DataQualityNoticeProps {
+  failures: HistoryFetchFailure[];
+  filled: FilledBarsSummary[];
+  note?: string;
+}
+
+const DataQualityNotice: React.FC<DataQualityNoticeProps> = ({ failures, filled, note }) => {
+  const filledTickers = filled.filter(f => f.filled > 0);
+  if (failures.length === 0 && filledTickers.length === 0 && !note) return null;
+
+  return (
+    <div className="rounded-lg border border-yellow-600/40 bg-yellow-900/20 px-4 py-3 text-sm space-y-2" role="status">
+      <h4 className="font-semibold text-yellow-300">Data Quality</h4>
+      {failures.length > 0 && (
+        <ul className="space-y-1 text-yellow-200/90">
+          {failures.map(f => (
+            <li key={f.ticker}>
+              <span className="font-mono text-yellow-400">{f.ticker}</span> was excluded: {f.reason}
+            </li>
+          ))}
+        </ul>
+      )}
+      {filledTickers.length > 0 && (
+        <div>
+          <p className="text-yellow-200/90">Forward-filled bars in the analysis window:</p>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 font-mono text-xs text-yellow-100/80">
+            {filledTickers.map(f => (
+              <span key={f.ticker}>
+                {f.ticker}: {f.filled} of {f.total} ({((f.filled / f.total) * 100).toFixed(1)}%)
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+      {note && <p className="text-yellow-200/90">{note}</p>}
+    </div>
+  );
+};
+
+export default DataQualityNotice;
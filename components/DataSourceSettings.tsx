@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_API_BASE,
+  DEFAULT_FIXTURE_PATH,
+  getProviderConfig,
+  ProviderConfig,
+  setProviderConfig,
+} from '../services/marketDataProvider';
+import { getRequestPolicy, setRequestPolicy } from '../services/http';
+
+interface DataSourceSettingsProps {
+  onChange: (config: ProviderConfig) => void;
+}
+
+const SOURCE_OPTIONS: { value: ProviderConfig['kind']; label: string }[] = [
+  { value: 'yf-api', label: 'Hosted yf-api' },
+  { value: 'self-hosted', label: 'Self-hosted API' },
+  { value: 'fixtures', label: 'Local fixtures' },
+];
+
+const DataSourceSettings: React.FC<DataSourceSettingsProps> = ({ onChange }) => {
+  const initial = getProviderConfig();
+  const [kind, setKind] = useState<ProviderConfig['kind']>(initial.kind);
+  const [baseUrl, setBaseUrl] = useState(initial.kind === 'self-hosted' ? initial.baseUrl : 'http://localhost:8000');
+  const [basePath, setBasePath] = useState(initial.kind === 'fixtures' ? initial.basePath : DEFAULT_FIXTURE_PATH);
+  const [retries, setRetries] = useState(getRequestPolicy().retries);
+  const [timeoutSeconds, setTimeoutSeconds] = useState(getRequestPolicy().timeoutMs / 1000);
+
+  const buildConfig = (): ProviderConfig => {
+    if (kind === 'self-hosted') return { kind, baseUrl: baseUrl.trim() || DEFAULT_API_BASE };
+    if (kind === 'fixtures') return { kind, basePath: basePath.trim() || DEFAULT_FIXTURE_PATH };
+    return { kind: 'yf-api' };
+  };
+
+  const handleApply = () => {
+    const config = buildConfig();
+    setRequestPolicy({
+      retries: Math.max(0, Math.floor(retries)),
+      timeoutMs: Math.max(1, timeoutSeconds) * 1000,
+    });
+    setProviderConfig(config);
+    onChange(config);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor="data-source" className="block px-3 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+        Data Source
+      </label>
+      <select
+        id="data-source"
+        value={kind}
+        onChange={e => setKind(e.target.value as ProviderConfig['kind'])}
+        className="bg-gray-700 border border-gray-600 text-white text-xs rounded-md block w-full p-2"
+      >
+        {SOURCE_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+      </select>
+      {kind === 'self-hosted' && (
+        <input
+          type="text"
+          value={baseUrl}
+          onChange={e => setBaseUrl(e.target.value)}
+          placeholder="https://your-api.example.com"
+          className="bg-gray-700 border border-gray-600 text-white text-xs rounded-md block w-full p-2 placeholder-gray-400"
+          aria-label="Self-hosted API base URL"
+        />
+      )}
+      {kind === 'fixtures' && (
+        <input
+          type="text"
+          value={basePath}
+          onChange={e => setBasePath(e.target.value)}
+          placeholder="/fixtures"
+          className="bg-gray-700 border border-gray-600 text-white text-xs rounded-md block w-full p-2 placeholder-gray-400"
+          aria-label="Fixture folder path"
+        />
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-400">
+          Retries
+          <input
+            type="number"
+            min={0}
+            value={retries}
+            onChange={e => setRetries(Number(e.target.value))}
+            className="mt-1 bg-gray-700 border border-gray-600 text-white text-xs rounded-md block w-full p-2"
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Timeout (s)
+          <input
+            type="number"
+            min={1}
+            value={timeoutSeconds}
+            onChange={e => setTimeoutSeconds(Number(e.target.value))}
+            className="mt-1 bg-gray-700 border border-gray-600 text-white text-xs rounded-md block w-full p-2"
+          />
+        </label>
+      </div>
+      <button
+        onClick={handleApply}
+        className="w-full text-white bg-gray-600/70 hover:bg-gray-600 font-medium rounded-md text-xs px-3 py-1.5"
+      >
+        Apply
+      </button>
+    </div>
+  );
+};
+
+export default DataSourceSettings;
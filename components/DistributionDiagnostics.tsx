@@ -0,0 +1,182 @@
+import React, { useMemo } from 'react';
+import { diagnoseReturns, TestResult } from '../services/returnDiagnostics';
+import { normalPdf, studentTPdf } from '../services/statistics';
+
+interface DistributionDiagnosticsProps {
+  // Per-period returns (simple or log), oldest first.
+  returns: number[];
+  title?: string;
+}
+
+const NORMAL_COLOR = '#fbbf24';
+const T_COLOR = '#a78bfa';
+const SIGNIFICANCE = 0.05;
+
+const formatP = (p: number) => (p < 0.0001 ? '< 0.0001' : p.toFixed(4));
+
+const Histogram: React.FC<{ diagnostics: ReturnType<typeof diagnoseReturns> }> = ({ diagnostics }) => {
+  const { histogram, count, mean, stdDev, studentT } = diagnostics;
+  const width = 480, height = 260, margin = { top: 10, right: 10, bottom: 28, left: 10 };
+  const binWidth = histogram[0].to - histogram[0].from;
+  const xMin = histogram[0].from, xMax = histogram[histogram.length - 1].to;
+  const xScale = (v: number) => margin.left + ((v - xMin) / (xMax - xMin)) * (width - margin.left - margin.right);
+  // Densities are scaled to expected counts per bin so they share the bars' axis.
+  const curve = (pdf: (x: number) => number) =>
+    Array.from({ length: 121 }, (_, i) => xMin + ((xMax - xMin) * i) / 120).map(x => ({ x, y: pdf(x) * count * binWidth }));
+  const normal = curve(x => normalPdf(x, mean, stdDev));
+  const t = curve(x => studentTPdf(x, studentT.df, studentT.loc, studentT.scale));
+  const yMax = Math.max(...histogram.map(b => b.count), ...normal.map(p => p.y), ...t.map(p => p.y));
+  const yScale = (v: number) => height - margin.bottom - (v / yMax) * (height - margin.top - margin.bottom);
+  const path = (points: { x: number; y: number }[]) => points.map((p, i) => `${i === 0 ? 'M' : 'L'}${xScale(p.x)},${yScale(p.y)}`).join(' ');
+  const ticks = [-3, -2, -1, 0, 1, 2, 3].map(k => mean + k * stdDev).filter(v => v >= xMin && v <= xMax);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" aria-label="Return histogram with fitted densities">
+      {histogram.map((bin, i) => (
+        <rect
+          key={i}
+          x={xScale(bin.from) + 0.5}
+          y={yScale(bin.count)}
+          width={Math.max(0, xScale(bin.to) - xScale(bin.from) - 1)}
+          height={yScale(0) - yScale(bin.count)}
+          fill="#38bdf8"
+          fillOpacity="0.45"
+        >
+          <title>{`${(bin.from * 100).toFixed(2)}% to ${(bin.to * 100).toFixed(2)}%: ${bin.count}`}</title>
+        </rect>
+      ))}
+      <path d={path(normal)} fill="none" stroke={NORMAL_COLOR} strokeWidth="1.5" />
+      <path d={path(t)} fill="none" stroke={T_COLOR} strokeWidth="1.5" />
+      <line x1={margin.left} x2={width - margin.right} y1={yScale(0)} y2={yScale(0)} stroke="#6b7280" />
+      <g className="text-gray-400 text-[10px]">
+        {ticks.map(v => (
+          <text key={v} x={xScale(v)} y={height - 10} textAnchor="middle" fill="currentColor">{(v * 100).toFixed(1)}%</text>
+        ))}
+      </g>
+    </svg>
+  );
+};
+
+const QQPlot: React.FC<{ points: { theoretical: number; sample: number }[] }> = ({ points }) => {
+  const size = 260, margin = 28;
+  const limit = Math.max(3, ...points.map(p => Math.abs(p.sample)), ...points.map(p => Math.abs(p.theoretical)));
+  const scale = (v: number) => margin + ((v + limit) / (2 * limit)) * (size - 2 * margin);
+  const ticks = [-Math.floor(limit), 0, Math.floor(limit)];
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className="w-full h-auto max-w-xs mx-auto" aria-label="QQ plot against the normal distribution">
+      <rect x={margin} y={margin} width={size - 2 * margin} height={size - 2 * margin} fill="none" stroke="#4b5563" strokeWidth="0.5" />
+      <line x1={scale(-limit)} y1={size - scale(-limit)} x2={scale(limit)} y2={size - scale(limit)} stroke={NORMAL_COLOR} strokeWidth="1" strokeDasharray="4,3" />
+      {points.map((p, i) => (
+        <circle key={i} cx={scale(p.theoretical)} cy={size - scale(p.sample)} r="1.6" fill="#38bdf8" fillOpacity="0.7" />
+      ))}
+      <g className="text-gray-400 text-[10px]">
+        {ticks.map(v => (
+          <React.Fragment key={v}>
+            <text x={scale(v)} y={size - 10} textAnchor="middle" fill="currentColor">{v}</text>
+            <text x={12} y={size - scale(v) + 3} textAnchor="middle" fill="currentColor">{v}</text>
+          </React.Fragment>
+        ))}
+        <text x={size / 2} y={size - 1} textAnchor="middle" fill="currentColor">Normal quantiles</text>
+      </g>
+    </svg>
+  );
+};
+
+const DistributionDiagnostics: React.FC<DistributionDiagnosticsProps> = ({ returns, title = 'Return Distribution' }) => {
+  const { diagnostics, error } = useMemo(() => {
+    try {
+      return { diagnostics: diagnoseReturns(returns), error: null };
+    } catch (err) {
+      return { diagnostics: null, error: err instanceof Error ? err.message : 'Diagnostics could not be computed.' };
+    }
+  }, [returns]);
+
+  const verdict = (test: TestResult, reject: string, accept: string) => (
+    <span className={test.pValue < SIGNIFICANCE ? 'text-red-300' : 'text-green-300'}>{test.pValue < SIGNIFICANCE ? reject : accept}</span>
+  );
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-4 shadow-md">
+      <div className="border-b border-gray-700 pb-2 mb-3">
+        <h3 className="text-lg font-bold text-blue-300">{title}</h3>
+      </div>
+      {error || !diagnostics ? (
+        <p className="text-sm text-gray-500">{error}</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div className="lg:col-span-2">
+              <Histogram diagnostics={diagnostics} />
+              <div className="flex justify-center gap-4 text-xs mt-1 text-gray-400">
+                <span className="flex items-center"><span className="w-3 h-0.5 mr-1.5" style={{ backgroundColor: NORMAL_COLOR }}></span>Normal</span>
+                <span className="flex items-center"><span className="w-3 h-0.5 mr-1.5" style={{ backgroundColor: T_COLOR }}></span>Student-t (df {diagnostics.studentT.df})</span>
+              </div>
+            </div>
+            <div>
+              <QQPlot points={diagnostics.qq} />
+              <p className="text-xs text-gray-500 text-center mt-1">Standardized returns; points off the line in the tails mean fatter tails than normal.</p>
+            </div>
+          </div>
+          <div className="overflow-x-auto rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-700/50 text-gray-300">
+                <tr>
+                  {['Statistic', 'Value', 'p-value', `At ${SIGNIFICANCE * 100}%`].map(header => (
+                    <th key={header} className="px-4 py-2 text-left font-medium">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700 font-mono">
+                <tr>
+                  <td className="px-4 py-2 font-sans text-gray-300">Observations</td>
+                  <td className="px-4 py-2 text-gray-200">{diagnostics.count.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-gray-500">—</td><td className="px-4 py-2 text-gray-500">—</td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-2 font-sans text-gray-300">Mean / Std Dev</td>
+                  <td className="px-4 py-2 text-gray-200">{(diagnostics.mean * 100).toFixed(3)}% / {(diagnostics.stdDev * 100).toFixed(3)}%</td>
+                  <td className="px-4 py-2 text-gray-500">—</td><td className="px-4 py-2 text-gray-500">—</td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-2 font-sans text-gray-300">Skewness</td>
+                  <td className="px-4 py-2 text-gray-200">{diagnostics.skewness.toFixed(3)}</td>
+                  <td className="px-4 py-2 text-gray-500">—</td>
+                  <td className="px-4 py-2 font-sans text-gray-400">{diagnostics.skewness < 0 ? 'Longer left tail' : 'Longer right tail'}</td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-2 font-sans text-gray-300">Excess Kurtosis</td>
+                  <td className="px-4 py-2 text-gray-200">{diagnostics.excessKurtosis.toFixed(3)}</td>
+                  <td className="px-4 py-2 text-gray-500">—</td>
+                  <td className="px-4 py-2 font-sans text-gray-400">{diagnostics.excessKurtosis > 0 ? 'Fatter tails than normal' : 'Thinner tails than normal'}</td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-2 font-sans text-gray-300">Jarque-Bera</td>
+                  <td className="px-4 py-2 text-gray-200">{diagnostics.jarqueBera.statistic.toFixed(2)}</td>
+                  <td className="px-4 py-2 text-gray-200">{formatP(diagnostics.jarqueBera.pValue)}</td>
+                  <td className="px-4 py-2 font-sans">{verdict(diagnostics.jarqueBera, 'Not normal', 'Normality not rejected')}</td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-2 font-sans text-gray-300">Ljung-Box, returns ({diagnostics.ljungBox.df} lags)</td>
+                  <td className="px-4 py-2 text-gray-200">{diagnostics.ljungBox.statistic.toFixed(2)}</td>
+                  <td className="px-4 py-2 text-gray-200">{formatP(diagnostics.ljungBox.pValue)}</td>
+                  <td className="px-4 py-2 font-sans">{verdict(diagnostics.ljungBox, 'Autocorrelated', 'No autocorrelation detected')}</td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-2 font-sans text-gray-300">Ljung-Box, squared returns ({diagnostics.ljungBoxSquared.df} lags)</td>
+                  <td className="px-4 py-2 text-gray-200">{diagnostics.ljungBoxSquared.statistic.toFixed(2)}</td>
+                  <td className="px-4 py-2 text-gray-200">{formatP(diagnostics.ljungBoxSquared.pValue)}</td>
+                  <td className="px-4 py-2 font-sans">{verdict(diagnostics.ljungBoxSquared, 'Volatility clustering', 'No clustering detected')}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500">
+            Historical VaR assumes returns are independent draws from a stable distribution; autocorrelation or volatility clustering means recent history deserves more weight.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DistributionDiagnostics;
@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { drawdownEpisodes, drawdownSeries } from '../services/performance';
+
+interface DrawdownAnalysisProps {
+  // Price or portfolio value series (oldest first) and the dates it is sampled at.
+  values: number[];
+  dates: string[];
+  formatDate: (date: string) => string;
+  // Unit for episode lengths, e.g. 'days' for daily bars.
+  unit?: string;
+  title?: string;
+}
+
+const TOP_N_OPTIONS = [5, 10, 20];
+
+const DrawdownAnalysis: React.FC<DrawdownAnalysisProps> = ({ values, dates, formatDate, unit = 'bars', title = 'Drawdowns' }) => {
+  const [topN, setTopN] = useState(5);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const underwater = useMemo(() => drawdownSeries(values), [values]);
+  const episodes = useMemo(() => drawdownEpisodes(values), [values]);
+
+  if (values.length < 2) return null;
+
+  const width = 800, height = 180, margin = { top: 10, right: 20, bottom: 28, left: 56 };
+  const plotWidth = width - margin.left - margin.right;
+  const worst = Math.min(...underwater, -0.0001);
+  const xScale = (i: number) => margin.left + (i / (underwater.length - 1)) * plotWidth;
+  const yScale = (v: number) => margin.top + (v / worst) * (height - margin.top - margin.bottom);
+  const yTicks = Array.from({ length: 5 }, (_, i) => (worst * i) / 4);
+  const xTicks = Array.from(new Set(Array.from({ length: 5 }, (_, i) => Math.round(((underwater.length - 1) * i) / 4))));
+  const line = underwater.map((v, i) => `${i === 0 ? 'M' : 'L'}${xScale(i)},${yScale(v)}`).join(' ');
+  const area = `${line} L${xScale(underwater.length - 1)},${yScale(0)} L${xScale(0)},${yScale(0)} Z`;
+
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) * width) / rect.width;
+    const i = Math.round(((x - margin.left) / plotWidth) * (underwater.length - 1));
+    setHoverIndex(i >= 0 && i < underwater.length ? i : null);
+  };
+  const readoutIndex = hoverIndex ?? underwater.length - 1;
+  const shown = episodes.slice(0, topN);
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-4 shadow-md">
+      <div className="flex flex-wrap justify-between items-center gap-3 border-b border-gray-700 pb-2 mb-3">
+        <h3 className="text-lg font-bold text-blue-300">{title}</h3>
+        <span className="text-xs font-mono text-gray-400">
+          {formatDate(dates[readoutIndex])} <span className={underwater[readoutIndex] < 0 ? 'text-red-400' : 'text-gray-300'}>{(underwater[readoutIndex] * 100).toFixed(2)}%</span> below peak
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full h-auto select-none"
+        aria-label="Underwater chart: percent below running peak"
+        onMouseMove={handleMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        <g className="text-gray-400 text-xs">
+          {yTicks.map(tick => (
+            <g key={tick} transform={`translate(0, ${yScale(tick)})`}>
+              <line x1={margin.left} x2={width - margin.right} stroke="currentColor" strokeWidth="0.5" strokeDasharray="2,2" />
+              <text x={margin.left - 8} y="3" textAnchor="end" fill="currentColor">{(tick * 100).toFixed(0)}%</text>
+            </g>
+          ))}
+          {xTicks.map(i => (
+            <text key={i} x={xScale(i)} y={height - 8} textAnchor="middle" fill="currentColor">{formatDate(dates[i])}</text>
+          ))}
+        </g>
+        <path d={area} fill="#f87171" fillOpacity="0.25" />
+        <path d={line} fill="none" stroke="#f87171" strokeWidth="1.25" />
+        {hoverIndex !== null && (
+          <line x1={xScale(hoverIndex)} x2={xScale(hoverIndex)} y1={margin.top} y2={height - margin.bottom} stroke="#9ca3af" strokeWidth="0.75" strokeDasharray="3,3" />
+        )}
+      </svg>
+
+      <div className="flex items-center justify-between mt-4 mb-2">
+        <h4 className="text-sm font-semibold text-gray-300">Worst Drawdown Episodes</h4>
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          Show top
+          <select value={topN} onChange={e => setTopN(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-xs rounded-lg p-1">
+            {TOP_N_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+      {shown.length === 0 ? (
+        <p className="text-sm text-gray-500">The series never fell below a prior peak.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-700/50 text-gray-300">
+              <tr>
+                {['#', 'Peak', 'Trough', 'Recovery', 'Depth', `Decline (${unit})`, `To Recover (${unit})`, `Total (${unit})`].map(header => (
+                  <th key={header} className="px-4 py-2 text-left font-medium whitespace-nowrap">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {shown.map((episode, i) => (
+                <tr key={episode.peakIndex} className={episode.recoveryIndex === null ? 'bg-red-900/10' : undefined}>
+                  <td className="px-4 py-2 text-gray-500">{i + 1}</td>
+                  <td className="px-4 py-2 text-gray-300 whitespace-nowrap">{formatDate(dates[episode.peakIndex])}</td>
+                  <td className="px-4 py-2 text-gray-300 whitespace-nowrap">{formatDate(dates[episode.troughIndex])}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    {episode.recoveryIndex !== null
+                      ? <span className="text-gray-300">{formatDate(dates[episode.recoveryIndex])}</span>
+                      : <span className="px-1.5 py-0.5 rounded text-[10px] uppercase bg-red-900/60 text-red-300">Ongoing</span>}
+                  </td>
+                  <td className="px-4 py-2 font-mono text-red-400">{(episode.depth * 100).toFixed(2)}%</td>
+                  <td className="px-4 py-2 font-mono text-gray-300">{episode.declineBars.toLocaleString()}</td>
+                  <td className="px-4 py-2 font-mono text-gray-300">{episode.recoveryBars !== null ? episode.recoveryBars.toLocaleString() : '—'}</td>
+                  <td className="px-4 py-2 font-mono text-gray-300">
+                    {episode.recoveryIndex !== null
+                      ? (episode.recoveryIndex - episode.peakIndex).toLocaleString()
+                      : `${(values.length - 1 - episode.peakIndex).toLocaleString()}+`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DrawdownAnalysis;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { CHART_EVENT_KINDS, ChartEventKind } from '../services/chartEvents';
+
+interface EventMarkerTogglesProps {
+  visibleKinds: ChartEventKind[];
+  onChange: (kinds: ChartEventKind[]) => void;
+  // Events per kind within the loaded history; null while they are still loading.
+  counts: { [kind in ChartEventKind]?: number } | null;
+}
+
+export const EVENT_COLORS: { [kind in ChartEventKind]: string } = {
+  dividend: '#38bdf8',
+  split: '#fbbf24',
+  news: '#a78bfa',
+};
+
+export const EVENT_LABELS: { [kind in ChartEventKind]: string } = {
+  dividend: '$',
+  split: 'S',
+  news: 'N',
+};
+
+const EventMarkerToggles: React.FC<EventMarkerTogglesProps> = ({ visibleKinds, onChange, counts }) => {
+  const toggle = (kind: ChartEventKind) =>
+    onChange(visibleKinds.includes(kind) ? visibleKinds.filter(k => k !== kind) : [...visibleKinds, kind]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 px-1 text-sm text-gray-300">
+      <span className="text-xs text-gray-400">Chart events</span>
+      {CHART_EVENT_KINDS.map(({ kind, label }) => (
+        <label key={kind} className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={visibleKinds.includes(kind)}
+            onChange={() => toggle(kind)}
+            className="rounded bg-gray-700 border-gray-600"
+          />
+          <span className="font-mono text-xs" style={{ color: EVENT_COLORS[kind] }}>{EVENT_LABELS[kind]}</span>
+          {label}
+          {counts && <span className="text-xs text-gray-500">{counts[kind] ?? 0}</span>}
+        </label>
+      ))}
+      {!counts && <span className="text-xs text-gray-500">Loading events…</span>}
+      {visibleKinds.includes('news') && <span className="text-xs text-gray-500">Click a news marker to open the article.</span>}
+    </div>
+  );
+};
+
+export default EventMarkerToggles;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { exportToCsv } from '../utils/csvExporter';
 import ExportButton from './ExportButton';
+import { FinancialStatementRow, FinancialStatements } from '../types';
 
 const formatValue = (value: number | null | undefined, key: string): string => {
   if (value === null || typeof value === 'undefined') return 'N/A';
@@ -35,7 +36,7 @@ const KEY_METRICS = new Set([
 ]);
 
 
-const FinancialsDisplay: React.FC<{ data: any, ticker: string }> = ({ data, ticker }) => {
+const FinancialsDisplay: React.FC<{ data: FinancialStatements, ticker: string }> = ({ data, ticker }) => {
   const [activeTab, setActiveTab] = useState('income');
 
   const tabs = [
@@ -96,7 +97,7 @@ const FinancialsDisplay: React.FC<{ data: any, ticker: string }> = ({ data, tick
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-700/50">
-            {activeTableData.map((row: any) => {
+            {activeTableData.map((row: FinancialStatementRow) => {
               const isKeyMetric = KEY_METRICS.has(row.index);
               return (
                 <tr key={row.index} className="hover:bg-gray-700/30 transition-colors duration-200">
@@ -104,7 +105,8 @@ const FinancialsDisplay: React.FC<{ data: any, ticker: string }> = ({ data, tick
                     {row.index}
                   </td>
                   {headers.map(header => {
-                    const value = row[header];
+                    const cell = row[header];
+                    const value = typeof cell === 'number' ? cell : null;
                     const isNegative = typeof value === 'number' && value < 0;
                     return (
                         <td key={header} className={`whitespace-nowrap px-4 sm:px-6 py-4 text-sm text-right font-mono ${isNegative ? 'text-red-400' : 'text-gray-200'}`}>
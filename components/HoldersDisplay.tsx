@@ -1,13 +1,10 @@
 import React, { useState, useMemo } from 'react';
 import { exportToCsv } from '../utils/csvExporter';
 import ExportButton from './ExportButton';
+import { FundHolder, HoldersData, MajorHolder } from '../types';
 
 interface HoldersDisplayProps {
-  data: {
-    major?: Array<{ index: string; Value: number }>;
-    institutional?: Array<any>;
-    mutualfund?: Array<any>;
-  };
+  data: HoldersData;
   ticker: string;
 }
 
@@ -26,7 +23,8 @@ const formatPercent = (val: number | undefined, signed = false): string => {
   return `${sign}${displayVal}%`;
 };
 
-const formatDate = (dateString: string) => {
+const formatDate = (dateString: string | undefined) => {
+    if (!dateString) return 'N/A';
     try {
         return new Date(dateString).toLocaleDateString('en-US', {
             year: 'numeric',
@@ -38,7 +36,7 @@ const formatDate = (dateString: string) => {
     }
 };
 
-const MajorHoldersSummary: React.FC<{ data: Array<{ index: string; Value: number }>, onExport: () => void }> = ({ data, onExport }) => {
+const MajorHoldersSummary: React.FC<{ data: MajorHolder[], onExport: () => void }> = ({ data, onExport }) => {
     const metrics: { [key: string]: number } = data.reduce((acc, item) => {
         acc[item.index] = item.Value;
         return acc;
@@ -72,7 +70,7 @@ const MajorHoldersSummary: React.FC<{ data: Array<{ index: string; Value: number
     );
 };
 
-const HoldersTable: React.FC<{ title: string; holders: Array<any>, onExport: () => void }> = ({ title, holders, onExport }) => {
+const HoldersTable: React.FC<{ title: string; holders: FundHolder[], onExport: () => void }> = ({ title, holders, onExport }) => {
   return (
     <div className="overflow-x-auto shadow-lg rounded-lg">
         <div className="flex justify-between items-center p-4">
@@ -139,14 +137,14 @@ const HoldersDisplay: React.FC<HoldersDisplayProps> = ({ data, ticker }) => {
     const handleExport = () => {
         if (!activeData) return;
 
-        let exportData: any[];
+        let exportData: object[];
         let filename: string;
         
         switch(activeTab) {
             case 'major':
                 filename = `${ticker}_major_holders_summary.csv`;
                 // Transform the major holders data into a more CSV-friendly format
-                exportData = activeData.map((item: {index: string, Value: number}) => ({
+                exportData = (activeData as MajorHolder[]).map(item => ({
                     Metric: item.index.replace(/([A-Z])/g, ' $1').trim(), // Add spaces to camelCase
                     Value: item.Value
                 }));
@@ -187,9 +185,9 @@ const HoldersDisplay: React.FC<HoldersDisplayProps> = ({ data, ticker }) => {
             </div>
 
             <div>
-                {activeTab === 'major' && <MajorHoldersSummary data={activeData as any[]} onExport={handleExport} />}
-                {activeTab === 'institutional' && <HoldersTable title="Top Institutional Holders" holders={activeData as any[]} onExport={handleExport} />}
-                {activeTab === 'mutualfund' && <HoldersTable title="Top Mutual Fund Holders" holders={activeData as any[]} onExport={handleExport} />}
+                {activeTab === 'major' && <MajorHoldersSummary data={activeData as MajorHolder[]} onExport={handleExport} />}
+                {activeTab === 'institutional' && <HoldersTable title="Top Institutional Holders" holders={activeData as FundHolder[]} onExport={handleExport} />}
+                {activeTab === 'mutualfund' && <HoldersTable title="Top Mutual Fund Holders" holders={activeData as FundHolder[]} onExport={handleExport} />}
             </div>
         </div>
     );
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import {
+  defaultIndicatorParams,
+  getIndicatorDefinition,
+  INDICATOR_DEFINITIONS,
+  IndicatorConfig,
+  indicatorLabel,
+  IndicatorType,
+} from '../services/indicators';
+
+interface IndicatorControlsProps {
+  indicators: IndicatorConfig[];
+  onChange: (indicators: IndicatorConfig[]) => void;
+  // Whether indicator values are added as table columns (and therefore to the CSV export).
+  showColumns: boolean;
+  onShowColumnsChange: (show: boolean) => void;
+}
+
+const IndicatorControls: React.FC<IndicatorControlsProps> = ({ indicators, onChange, showColumns, onShowColumnsChange }) => {
+  const [type, setType] = useState<IndicatorType>('sma');
+  const [params, setParams] = useState<{ [name: string]: number }>(() => defaultIndicatorParams('sma'));
+  const definition = getIndicatorDefinition(type);
+
+  const handleTypeChange = (next: IndicatorType) => {
+    setType(next);
+    setParams(defaultIndicatorParams(next));
+  };
+
+  const handleAdd = () => {
+    const config: IndicatorConfig = { id: `${type}-${Date.now()}`, type, params };
+    // Adding the same indicator twice would only duplicate its series and columns.
+    if (indicators.some(ind => indicatorLabel(ind) === indicatorLabel(config))) return;
+    onChange([...indicators, config]);
+  };
+
+  return (
+    <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label htmlFor="indicator-type" className="block mb-1 text-xs text-gray-400">Indicator</label>
+          <select
+            id="indicator-type"
+            value={type}
+            onChange={e => handleTypeChange(e.target.value as IndicatorType)}
+            className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-2"
+          >
+            <optgroup label="Price overlays">
+              {INDICATOR_DEFINITIONS.filter(d => d.placement === 'overlay').map(d => <option key={d.type} value={d.type}>{d.label}</option>)}
+            </optgroup>
+            <optgroup label="Separate panes">
+              {INDICATOR_DEFINITIONS.filter(d => d.placement === 'pane').map(d => <option key={d.type} value={d.type}>{d.label}</option>)}
+            </optgroup>
+          </select>
+        </div>
+        {definition.params.map(param => (
+          <div key={param.name}>
+            <label htmlFor={`indicator-${param.name}`} className="block mb-1 text-xs text-gray-400">{param.label}</label>
+            <input
+              id={`indicator-${param.name}`}
+              type="number"
+              min={param.min}
+              step={param.step ?? 1}
+              value={params[param.name] ?? param.defaultValue}
+              onChange={e => setParams(prev => ({ ...prev, [param.name]: Number(e.target.value) }))}
+              className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-2 w-20"
+            />
+          </div>
+        ))}
+        <button onClick={handleAdd} className="rounded-md bg-blue-600 hover:bg-blue-700 px-4 py-2 text-sm font-medium text-white">Add</button>
+        <label className="flex items-center gap-2 text-sm text-gray-300 ml-auto">
+          <input
+            type="checkbox"
+            checked={showColumns}
+            onChange={e => onShowColumnsChange(e.target.checked)}
+            className="rounded bg-gray-700 border-gray-600"
+          />
+          Show as table &amp; CSV columns
+        </label>
+      </div>
+      {indicators.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {indicators.map(ind => (
+            <span key={ind.id} className="inline-flex items-center gap-1 rounded-full bg-gray-700 px-3 py-1 text-xs font-mono text-gray-200">
+              {indicatorLabel(ind)}
+              <button
+                onClick={() => onChange(indicators.filter(other => other.id !== ind.id))}
+                className="text-gray-400 hover:text-red-300"
+                aria-label={`Remove ${indicatorLabel(ind)}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IndicatorControls;
@@ -3,7 +3,7 @@ import { exportToJson } from '../utils/jsonExporter';
 import ExportButton from './ExportButton';
 
 interface JsonViewerProps {
-  data: any;
+  data: unknown;
   ticker: string;
   dataType: string;
 }
@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import {
+  buildDatasetRows,
+  ColumnMapping,
+  deleteLocalDataset,
+  guessColumnMapping,
+  isValidLocalSymbol,
+  listLocalDatasets,
+  LOCAL_SYMBOL_PREFIX,
+  LocalDataset,
+  MAPPABLE_FIELDS,
+  MappableField,
+  saveLocalDataset,
+  toLocalSymbol,
+} from '../services/localDatasets';
+import { parseCsv, readFileAsText } from '../utils/csvImporter';
+
+interface LocalDataImportProps {
+  // Opens an imported dataset in the History view.
+  onOpen: (symbol: string) => void;
+}
+
+interface PendingImport {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+const PREVIEW_ROWS = 5;
+
+// `AAPL_history.csv` -> `AAPL-HISTORY`; characters a symbol cannot contain become dashes.
+const symbolFromFileName = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, '').toUpperCase().replace(/[^A-Z0-9._^=-]/g, '-').slice(0, 20);
+
+const formatImportedAt = (epochMs: number) =>
+  new Date(epochMs).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const ColumnMappingDialog: React.FC<{
+  pending: PendingImport;
+  onCancel: () => void;
+  onImported: (dataset: LocalDataset) => void;
+}> = ({ pending, onCancel, onImported }) => {
+  const [symbol, setSymbol] = useState(() => symbolFromFileName(pending.fileName));
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(pending.headers));
+  const [error, setError] = useState<string | null>(null);
+  const existing = listLocalDatasets().some(d => d.symbol === toLocalSymbol(symbol.trim()));
+
+  const setField = (field: MappableField, value: string) =>
+    setMapping(prev => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
+
+  const handleImport = () => {
+    try {
+      const name = symbol.trim().toUpperCase();
+      if (!isValidLocalSymbol(name)) {
+        throw new Error('Symbols may use letters, digits and . ^ = - (up to 20 characters).');
+      }
+      const { data, warnings } = buildDatasetRows(pending.rows, mapping);
+      if (data.length < 2) throw new Error('Fewer than 2 usable rows were found with this column mapping.');
+      const dataset: LocalDataset = {
+        symbol: toLocalSymbol(name),
+        fileName: pending.fileName,
+        importedAt: Date.now(),
+        rows: data,
+        warnings,
+      };
+      saveLocalDataset(dataset);
+      onImported(dataset);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The file could not be imported.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true" aria-labelledby="mapping-title">
+      <div className="w-full max-w-3xl max-h-full overflow-y-auto rounded-lg bg-gray-800 border border-gray-700 p-6 shadow-2xl space-y-5">
+        <div>
+          <h3 id="mapping-title" className="text-lg font-semibold text-gray-100">Map columns for {pending.fileName}</h3>
+          <p className="text-sm text-gray-400 mt-1">{pending.rows.length.toLocaleString()} data rows. Date and Close are required; missing Open/High/Low default to Close and Volume to 0.</p>
+        </div>
+
+        <div>
+          <label htmlFor="local-symbol" className="block mb-1 text-sm font-medium text-gray-300">Pseudo-ticker</label>
+          <div className="flex">
+            <span className="inline-flex items-center px-3 text-sm font-mono text-purple-300 bg-gray-900/60 border border-r-0 border-gray-600 rounded-l-lg">{LOCAL_SYMBOL_PREFIX}</span>
+            <input
+              id="local-symbol"
+              type="text"
+              value={symbol}
+              onChange={e => setSymbol(e.target.value)}
+              className="bg-gray-700 border border-gray-600 text-white text-sm rounded-r-lg block w-full p-2.5 font-mono"
+            />
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            {existing
+              ? 'Replaces the dataset already imported under this symbol.'
+              : `Enter ${toLocalSymbol(symbol.trim() || 'NAME')} wherever a ticker is accepted; the prefix keeps it apart from real tickers.`}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {MAPPABLE_FIELDS.map(({ field, label, required }) => (
+            <div key={field}>
+              <label htmlFor={`map-${field}`} className="block mb-1 text-xs text-gray-400">
+                {label}{required && <span className="text-red-400"> *</span>}
+              </label>
+              <select
+                id={`map-${field}`}
+                value={mapping[field] ?? ''}
+                onChange={e => setField(field, e.target.value)}
+                className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2"
+              >
+                <option value="">— none —</option>
+                {pending.headers.map((header, index) => <option key={index} value={index}>{header || `Column ${index + 1}`}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto rounded-lg">
+          <table className="min-w-full text-xs text-left">
+            <thead className="bg-gray-700/50 text-gray-300">
+              <tr>{pending.headers.map((header, index) => <th key={index} className="px-3 py-2 font-medium whitespace-nowrap">{header || `Column ${index + 1}`}</th>)}</tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700 text-gray-400 font-mono">
+              {pending.rows.slice(0, PREVIEW_ROWS).map((cells, i) => (
+                <tr key={i}>{pending.headers.map((_, j) => <td key={j} className="px-3 py-1.5 whitespace-nowrap">{cells[j]}</td>)}</tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {error && <div className="text-sm text-red-400 bg-red-900/20 rounded-lg p-3" role="alert">{error}</div>}
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onCancel} className="rounded-md px-4 py-2 text-sm text-gray-300 hover:bg-gray-700">Cancel</button>
+          <button onClick={handleImport} className="rounded-md bg-blue-600 hover:bg-blue-700 px-4 py-2 text-sm font-medium text-white">Import</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const LocalDataImport: React.FC<LocalDataImportProps> = ({ onOpen }) => {
+  const [datasets, setDatasets] = useState<LocalDataset[]>(() => listLocalDatasets());
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setNotice(null);
+    try {
+      const [headers, ...rows] = parseCsv(await readFileAsText(file));
+      if (!headers || rows.length === 0) throw new Error(`${file.name} has no data rows.`);
+      setPending({ fileName: file.name, headers, rows });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The file could not be read.');
+    }
+  };
+
+  const handleImported = (dataset: LocalDataset) => {
+    setPending(null);
+    setDatasets(listLocalDatasets());
+    setNotice(`Imported ${dataset.rows.length.toLocaleString()} bars as ${dataset.symbol}.`);
+  };
+
+  const handleDelete = (symbol: string) => {
+    deleteLocalDataset(symbol);
+    setDatasets(listLocalDatasets());
+  };
+
+  return (
+    <div className="space-y-6">
+      <label
+        htmlFor="csv-file"
+        onDragOver={e => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={e => { e.preventDefault(); setDragging(false); handleFile(e.dataTransfer.files?.[0]); }}
+        className={`flex flex-col items-center justify-center rounded-lg border-2 border-dashed p-10 cursor-pointer transition-colors ${
+          dragging ? 'border-blue-400 bg-blue-900/20' : 'border-gray-600 hover:border-gray-500 bg-gray-900/30'
+        }`}
+      >
+        <span className="text-gray-200 font-medium">Drop an OHLCV CSV file here, or click to choose one</span>
+        <span className="mt-1 text-xs text-gray-500">Date,Open,High,Low,Close,Volume — other layouts can be mapped after choosing the file. History CSV exports re-import as-is.</span>
+        <input
+          id="csv-file"
+          type="file"
+          accept=".csv,text/csv"
+          className="sr-only"
+          onChange={e => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+        />
+      </label>
+
+      {error && <div className="text-sm text-red-400 bg-red-900/20 rounded-lg p-3" role="alert">{error}</div>}
+      {notice && <div className="text-sm text-green-300 bg-green-900/20 rounded-lg p-3" role="status">{notice}</div>}
+
+      {datasets.length === 0 ? (
+        <p className="text-center text-gray-400 py-4">No datasets imported yet.</p>
+      ) : (
+        <div className="overflow-x-auto shadow-2xl rounded-lg">
+          <table className="min-w-full divide-y divide-gray-700 bg-gray-800">
+            <thead className="bg-gray-700/50">
+              <tr>
+                {['Symbol', 'File', 'Bars', 'Range', 'Imported', 'Warnings', ''].map(header => (
+                  <th key={header} scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {datasets.map(dataset => (
+                <tr key={dataset.symbol} className="hover:bg-gray-700/60 transition-colors duration-200">
+                  <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-purple-300">{dataset.symbol}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-300">{dataset.fileName}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-400 font-mono">{dataset.rows.length.toLocaleString()}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-400">
+                    {dataset.rows[0].Date.slice(0, 10)} → {dataset.rows[dataset.rows.length - 1].Date.slice(0, 10)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-400">{formatImportedAt(dataset.importedAt)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm">
+                    {dataset.warnings.length > 0
+                      ? <span className="text-yellow-400/90" title={dataset.warnings.map(w => `${w.field}: ${w.message} (${w.count})`).join('\n')}>{dataset.warnings.reduce((sum, w) => sum + w.count, 0)}</span>
+                      : <span className="text-gray-500">—</span>}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right space-x-3">
+                    <button onClick={() => onOpen(dataset.symbol)} className="text-xs text-blue-400 hover:text-blue-300 font-semibold">Open</button>
+                    <button onClick={() => handleDelete(dataset.symbol)} className="text-xs text-red-400 hover:text-red-300 font-semibold">Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pending && <ColumnMappingDialog pending={pending} onCancel={() => setPending(null)} onImported={handleImported} />}
+    </div>
+  );
+};
+
+export default LocalDataImport;
@@ -1,10 +1,10 @@
 import React from 'react';
 import { exportToCsv } from '../utils/csvExporter';
 import ExportButton from './ExportButton';
+import { NewsArticle } from '../types';
 
-// Using `any` as the API response can be complex and this is sufficient for this display component.
 interface NewsListProps {
-  articles: any[];
+  articles: NewsArticle[];
   ticker: string;
 }
 
@@ -74,7 +74,7 @@ const NewsList: React.FC<NewsListProps> = ({ articles, ticker }) => {
             if (!content) return null;
 
             // Find a suitable thumbnail. Prioritize smaller, non-original resolutions.
-            const thumbnail = content.thumbnail?.resolutions.find((r: any) => r.width < 300 && r.width > 100) || content.thumbnail?.resolutions.slice(-1)[0];
+            const thumbnail = content.thumbnail?.resolutions.find(r => r.width < 300 && r.width > 100) || content.thumbnail?.resolutions.slice(-1)[0];
 
             return (
             <a
@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from 'react';
+import {
+  FORWARD_HORIZONS,
+  forwardReturn,
+  forwardStatsByPattern,
+  getPatternDefinition,
+  PATTERN_DEFINITIONS,
+  PatternBias,
+  PatternMatch,
+  PatternType,
+} from '../services/patterns';
+import { exportToCsv } from '../utils/csvExporter';
+import ExportButton from './ExportButton';
+
+interface PatternScannerProps {
+  matches: PatternMatch[];
+  // Basis closes and dates aligned with the scanned bars, oldest first.
+  closes: number[];
+  dates: string[];
+  formatDate: (date: string) => string;
+  selectedTypes: PatternType[];
+  onSelectedTypesChange: (types: PatternType[]) => void;
+  showMarkers: boolean;
+  onShowMarkersChange: (show: boolean) => void;
+  ticker: string;
+  title?: string;
+}
+
+export const BIAS_COLORS: { [bias in PatternBias]: string } = {
+  bullish: '#4ade80',
+  bearish: '#f87171',
+  neutral: '#9ca3af',
+};
+
+const BIAS_TEXT: { [bias in PatternBias]: string } = {
+  bullish: 'text-green-400',
+  bearish: 'text-red-400',
+  neutral: 'text-gray-300',
+};
+
+const formatPercent = (value: number | null, digits = 2) => (value === null ? '—' : `${(value * 100).toFixed(digits)}%`);
+const returnColor = (value: number | null) => (value === null ? 'text-gray-500' : value >= 0 ? 'text-green-400' : 'text-red-400');
+const horizonLabel = (horizon: number) => `+${horizon} ${horizon === 1 ? 'bar' : 'bars'}`;
+
+const PatternScanner: React.FC<PatternScannerProps> = ({
+  matches,
+  closes,
+  dates,
+  formatDate,
+  selectedTypes,
+  onSelectedTypesChange,
+  showMarkers,
+  onShowMarkersChange,
+  ticker,
+  title = 'Pattern Scanner',
+}) => {
+  const [openGapsOnly, setOpenGapsOnly] = useState(false);
+
+  const forwardStats = useMemo(() => forwardStatsByPattern(closes, matches), [closes, matches]);
+  // Every pattern's stats carry the same all-bars baseline.
+  const baseline = PATTERN_DEFINITIONS.map(d => forwardStats[d.type]).find(stats => stats !== undefined);
+  const counts = useMemo(() => {
+    const result: { [type in PatternType]?: number } = {};
+    matches.forEach(m => { result[m.type] = (result[m.type] ?? 0) + 1; });
+    return result;
+  }, [matches]);
+
+  const visibleMatches = useMemo(() => {
+    const selected = new Set(selectedTypes);
+    return matches
+      .filter(m => selected.has(m.type) && (!openGapsOnly || (m.gap && m.gap.filledIndex === null)))
+      .sort((a, b) => b.index - a.index);
+  }, [matches, selectedTypes, openGapsOnly]);
+
+  const toggleType = (type: PatternType) =>
+    onSelectedTypesChange(selectedTypes.includes(type) ? selectedTypes.filter(t => t !== type) : [...selectedTypes, type]);
+
+  const gapStatus = (match: PatternMatch) => {
+    if (!match.gap) return null;
+    if (match.gap.filledIndex === null) return 'Open';
+    return `Filled ${formatDate(dates[match.gap.filledIndex])}`;
+  };
+
+  const handleExport = () => {
+    exportToCsv(visibleMatches.map(m => ({
+      Date: m.date,
+      Pattern: getPatternDefinition(m.type).label,
+      Close: closes[m.index],
+      ...FORWARD_HORIZONS.reduce((acc, h) => {
+        const value = forwardReturn(closes, m.index, h);
+        return { ...acc, [`${horizonLabel(h)} %`]: value === null ? '' : Number((value * 100).toFixed(4)) };
+      }, {} as { [column: string]: number | string }),
+      'Gap %': m.gap ? Number((m.gap.sizePct * 100).toFixed(4)) : '',
+      'Gap Status': m.gap ? (m.gap.filledIndex === null ? 'Open' : 'Filled') : '',
+    })), `${ticker}_patterns.csv`);
+  };
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-4 shadow-md">
+      <div className="flex flex-wrap justify-between items-center gap-2 border-b border-gray-700 pb-2 mb-3">
+        <h3 className="text-lg font-bold text-blue-300">{title}</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={showMarkers}
+            onChange={e => onShowMarkersChange(e.target.checked)}
+            className="w-4 h-4 rounded bg-gray-700 border-gray-600 text-blue-500 focus:ring-blue-500"
+          />
+          Show on chart
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {PATTERN_DEFINITIONS.map(def => {
+          const active = selectedTypes.includes(def.type);
+          return (
+            <button
+              key={def.type}
+              type="button"
+              onClick={() => toggleType(def.type)}
+              className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                active ? 'bg-gray-700 border-gray-500' : 'bg-transparent border-gray-700 text-gray-500 hover:border-gray-500'
+              }`}
+            >
+              <span className={active ? BIAS_TEXT[def.bias] : ''}>{def.label}</span>
+              <span className="ml-1.5 text-gray-500">{counts[def.type] ?? 0}</span>
+            </button>
+          );
+        })}
+        <button type="button" onClick={() => onSelectedTypesChange(PATTERN_DEFINITIONS.map(d => d.type))} className="px-2 py-1 text-xs text-blue-400 hover:text-blue-300">All</button>
+        <button type="button" onClick={() => onSelectedTypesChange([])} className="px-2 py-1 text-xs text-blue-400 hover:text-blue-300">None</button>
+      </div>
+
+      <h4 className="text-sm font-semibold text-gray-300 mb-2">Forward Returns by Pattern</h4>
+      <div className="overflow-x-auto rounded-lg mb-2">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-700/50 text-gray-300">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">Pattern</th>
+              <th className="px-3 py-2 text-right font-medium">Signals</th>
+              {FORWARD_HORIZONS.map(h => (
+                <React.Fragment key={h}>
+                  <th className="px-3 py-2 text-right font-medium">{horizonLabel(h)} Mean</th>
+                  <th className="px-3 py-2 text-right font-medium">Hit Rate</th>
+                </React.Fragment>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-700 font-mono">
+            {PATTERN_DEFINITIONS.filter(def => selectedTypes.includes(def.type) && forwardStats[def.type]).map(def => (
+              <tr key={def.type}>
+                <td className={`px-3 py-2 font-sans ${BIAS_TEXT[def.bias]}`}>{def.label}</td>
+                <td className="px-3 py-2 text-right text-gray-300">{counts[def.type]}</td>
+                {forwardStats[def.type]!.map(stat => (
+                  <React.Fragment key={stat.horizon}>
+                    <td className={`px-3 py-2 text-right ${returnColor(stat.mean)}`} title={`Median ${formatPercent(stat.median)} over ${stat.count} signals`}>
+                      {formatPercent(stat.mean)}
+                    </td>
+                    <td className={`px-3 py-2 text-right ${stat.hitRate !== null && stat.baselineHitRate !== null && stat.hitRate > stat.baselineHitRate ? 'text-green-300' : 'text-gray-300'}`}>
+                      {formatPercent(stat.hitRate, 0)}
+                    </td>
+                  </React.Fragment>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+          {baseline && (
+            <tfoot className="border-t-2 border-gray-600 font-mono">
+              <tr>
+                <td className="px-3 py-2 font-sans text-gray-400">All bars</td>
+                <td className="px-3 py-2 text-right text-gray-500">{closes.length.toLocaleString()}</td>
+                {baseline.map(stat => (
+                  <React.Fragment key={stat.horizon}>
+                    <td className={`px-3 py-2 text-right ${returnColor(stat.baseline)}`}>{formatPercent(stat.baseline)}</td>
+                    <td className="px-3 py-2 text-right text-gray-400">{formatPercent(stat.baselineHitRate, 0)}</td>
+                  </React.Fragment>
+                ))}
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Returns run from the signal bar's close. Hit rates above the all-bars rate are highlighted; hover a mean for the median. Small samples are noisy.
+      </p>
+
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+        <h4 className="text-sm font-semibold text-gray-300">Signals ({visibleMatches.length.toLocaleString()})</h4>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={openGapsOnly}
+              onChange={e => setOpenGapsOnly(e.target.checked)}
+              className="w-4 h-4 rounded bg-gray-700 border-gray-600 text-blue-500 focus:ring-blue-500"
+            />
+            Unfilled gaps only
+          </label>
+          <ExportButton onClick={handleExport}>Export to CSV</ExportButton>
+        </div>
+      </div>
+      {visibleMatches.length === 0 ? (
+        <p className="text-sm text-gray-500">No signals match the selected patterns.</p>
+      ) : (
+        <div className="overflow-auto max-h-96 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-700 sticky top-0 text-gray-300">
+              <tr>
+                {['Date', 'Pattern', 'Close', ...FORWARD_HORIZONS.map(horizonLabel), 'Gap'].map(header => (
+                  <th key={header} className={`px-3 py-2 font-medium ${header === 'Date' || header === 'Pattern' || header === 'Gap' ? 'text-left' : 'text-right'}`}>{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {visibleMatches.map(m => {
+                const def = getPatternDefinition(m.type);
+                return (
+                  <tr key={`${m.type}-${m.index}`} className="hover:bg-gray-700/40">
+                    <td className="px-3 py-2 text-gray-300 whitespace-nowrap">{formatDate(m.date)}</td>
+                    <td className={`px-3 py-2 ${BIAS_TEXT[def.bias]}`}>{def.label}</td>
+                    <td className="px-3 py-2 text-right font-mono text-gray-200">{closes[m.index].toFixed(2)}</td>
+                    {FORWARD_HORIZONS.map(h => {
+                      const value = forwardReturn(closes, m.index, h);
+                      return <td key={h} className={`px-3 py-2 text-right font-mono ${returnColor(value)}`}>{formatPercent(value)}</td>;
+                    })}
+                    <td className="px-3 py-2 text-gray-400 whitespace-nowrap">
+                      {m.gap && (
+                        <>
+                          <span className="font-mono">{formatPercent(m.gap.sizePct)}</span>
+                          <span className={`ml-2 ${m.gap.filledIndex === null ? 'text-yellow-300' : 'text-gray-500'}`}>{gapStatus(m)}</span>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PatternScanner;
@@ -0,0 +1,331 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { fetchMultipleStockHistories, HistoryFetchFailure } from '../services/stockService';
+import { isAbortError } from '../services/http';
+import {
+  ALIGNMENT_POLICY_OPTIONS,
+  AlignmentPolicy,
+  FilledBarsSummary,
+  summarizeFilledBars,
+} from '../services/historyAlignment';
+import { basisClose, RETURN_BASIS_OPTIONS, ReturnBasis } from '../services/priceAdjustments';
+import { barsPerYear } from '../services/marketSessions';
+import { annualizedVolatility, maxDrawdown, totalReturn } from '../services/performance';
+import { addDays, isIsoDate, todayIso } from '../utils/dateRange';
+import { exportToCsv } from '../utils/csvExporter';
+import LoadingSpinner from './LoadingSpinner';
+import DataQualityNotice from './DataQualityNotice';
+import ExportButton from './ExportButton';
+
+// --- TYPE DEFINITIONS ---
+type DisplayMode = 'rebased' | 'percent';
+
+interface TickerSummary {
+  ticker: string;
+  periodReturn: number;
+  volatility: number;
+  maxDrawdown: number;
+  maxDrawdownPeak: string;
+  maxDrawdownTrough: string;
+}
+
+interface ComparisonResults {
+  tickers: string[];
+  // Shared, ascending date axis of the aligned histories.
+  dates: string[];
+  // Each ticker's basis close rebased to 100 on the first date.
+  rebased: { [ticker: string]: number[] };
+  summaries: TickerSummary[];
+  failures: HistoryFetchFailure[];
+  filled: FilledBarsSummary[];
+}
+
+const INTERVAL_OPTIONS = [
+  { value: '1d', label: 'Daily' },
+  { value: '1wk', label: 'Weekly' },
+  { value: '1mo', label: 'Monthly' },
+];
+
+// Rebased and %-change views need every ticker on the same dates, so 'none' is not offered.
+const COMPARISON_ALIGNMENT_OPTIONS = ALIGNMENT_POLICY_OPTIONS.filter(opt => opt.value !== 'none');
+
+const SERIES_COLORS = ['#38bdf8', '#f87171', '#fbbf24', '#4ade80', '#a78bfa', '#f472b6'];
+
+const toDisplay = (value: number, mode: DisplayMode) => (mode === 'rebased' ? value : value - 100);
+const formatDisplay = (value: number, mode: DisplayMode) =>
+  mode === 'rebased' ? value.toFixed(2) : `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+const formatDay = (date: string) =>
+  new Date(date.slice(0, 10) + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// --- UI SUB-COMPONENTS ---
+
+const InputField: React.FC<{ label: string; id: string; children: React.ReactNode }> = ({ label, id, children }) => (
+    <div>
+        <label htmlFor={id} className="block mb-1 text-sm font-medium text-gray-300">{label}</label>
+        {children}
+    </div>
+);
+
+const ComparisonChart: React.FC<{ result: ComparisonResults; mode: DisplayMode }> = ({ result, mode }) => {
+    const { tickers, dates, rebased } = result;
+    const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+    const width = 800, height = 360, margin = { top: 20, right: 20, bottom: 40, left: 60 };
+    const plotWidth = width - margin.left - margin.right;
+
+    const values = tickers.flatMap(t => rebased[t].map(v => toDisplay(v, mode)));
+    const baseline = toDisplay(100, mode);
+    let yMin = Math.min(baseline, ...values), yMax = Math.max(baseline, ...values);
+    const pad = (yMax - yMin) * 0.05 || 1;
+    yMin -= pad; yMax += pad;
+
+    const xScale = (i: number) => margin.left + (dates.length > 1 ? (i / (dates.length - 1)) * plotWidth : plotWidth / 2);
+    const yScale = (v: number) => height - margin.bottom - ((v - yMin) / (yMax - yMin)) * (height - margin.top - margin.bottom);
+    const yTicks = Array.from({ length: 6 }, (_, i) => yMin + ((yMax - yMin) * i) / 5);
+    const xTicks = Array.from(new Set(Array.from({ length: 6 }, (_, i) => Math.round(((dates.length - 1) * i) / 5))));
+
+    const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = ((e.clientX - rect.left) * width) / rect.width;
+        const i = Math.round(((x - margin.left) / plotWidth) * (dates.length - 1));
+        setHoverIndex(i >= 0 && i < dates.length ? i : null);
+    };
+
+    const index = hoverIndex ?? dates.length - 1;
+
+    return (
+        <div>
+            <h3 className="text-xl font-semibold text-gray-100 mb-4">{mode === 'rebased' ? 'Performance (rebased to 100)' : 'Performance (% change)'}</h3>
+            <div className="bg-gray-900/50 rounded-lg p-4">
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mb-2 text-xs font-mono">
+                    <span className="text-gray-400">{formatDay(dates[index])}</span>
+                    {tickers.map((ticker, i) => (
+                        <span key={ticker} style={{ color: SERIES_COLORS[i % SERIES_COLORS.length] }}>
+                            {ticker} {formatDisplay(toDisplay(rebased[ticker][index], mode), mode)}
+                        </span>
+                    ))}
+                </div>
+                <svg
+                    viewBox={`0 0 ${width} ${height}`}
+                    className="w-full h-auto select-none"
+                    aria-labelledby="comparison-chart-title"
+                    onMouseMove={handleMove}
+                    onMouseLeave={() => setHoverIndex(null)}
+                >
+                    <title id="comparison-chart-title">Relative Performance Chart</title>
+                    <g className="text-gray-400 text-xs">
+                        {yTicks.map(tick => (
+                            <g key={tick} transform={`translate(0, ${yScale(tick)})`}>
+                                <line x1={margin.left} x2={width - margin.right} stroke="currentColor" strokeWidth="0.5" strokeDasharray="2,2" />
+                                <text x={margin.left - 8} y="3" textAnchor="end" fill="currentColor">{formatDisplay(tick, mode)}</text>
+                            </g>
+                        ))}
+                        {xTicks.map(i => (
+                            <text key={i} x={xScale(i)} y={height - margin.bottom + 18} textAnchor="middle" fill="currentColor">{formatDay(dates[i])}</text>
+                        ))}
+                    </g>
+                    <line x1={margin.left} x2={width - margin.right} y1={yScale(baseline)} y2={yScale(baseline)} stroke="#9ca3af" strokeWidth="1" />
+                    {tickers.map((ticker, i) => (
+                        <path
+                            key={ticker}
+                            d={rebased[ticker].map((v, j) => `${j === 0 ? 'M' : 'L'}${xScale(j)},${yScale(toDisplay(v, mode))}`).join(' ')}
+                            fill="none"
+                            stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                            strokeWidth="2"
+                        />
+                    ))}
+                    {hoverIndex !== null && (
+                        <line x1={xScale(hoverIndex)} x2={xScale(hoverIndex)} y1={margin.top} y2={height - margin.bottom} stroke="#9ca3af" strokeWidth="0.75" strokeDasharray="3,3" />
+                    )}
+                </svg>
+            </div>
+        </div>
+    );
+};
+
+const SummaryTable: React.FC<{ summaries: TickerSummary[] }> = ({ summaries }) => (
+    <div>
+        <h3 className="text-xl font-semibold text-gray-100 mb-4">Summary</h3>
+        <div className="overflow-x-auto rounded-lg shadow-md">
+            <table className="min-w-full text-sm">
+                <thead className="bg-gray-700/50 text-gray-300">
+                    <tr>
+                        {['Ticker', 'Period Return', 'Volatility (ann.)', 'Max Drawdown', 'Peak → Trough'].map(header => (
+                            <th key={header} className="px-4 py-2 text-left font-medium">{header}</th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                    {summaries.map((s, i) => (
+                        <tr key={s.ticker}>
+                            <td className="px-4 py-2 font-mono" style={{ color: SERIES_COLORS[i % SERIES_COLORS.length] }}>{s.ticker}</td>
+                            <td className={`px-4 py-2 font-mono ${s.periodReturn >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatPercent(s.periodReturn)}</td>
+                            <td className="px-4 py-2 font-mono text-gray-300">{formatPercent(s.volatility)}</td>
+                            <td className="px-4 py-2 font-mono text-red-400">{formatPercent(s.maxDrawdown)}</td>
+                            <td className="px-4 py-2 text-gray-400">{s.maxDrawdown < 0 ? `${formatDay(s.maxDrawdownPeak)} → ${formatDay(s.maxDrawdownTrough)}` : '—'}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    </div>
+);
+
+// --- MAIN COMPONENT ---
+const PerformanceComparison: React.FC = () => {
+    const [tickers, setTickers] = useState('AAPL,MSFT,QQQ');
+    const [startDate, setStartDate] = useState(() => addDays(todayIso(), -365));
+    const [endDate, setEndDate] = useState('');
+    const [barInterval, setBarInterval] = useState('1d');
+    const [mode, setMode] = useState<DisplayMode>('rebased');
+    const [returnBasis, setReturnBasis] = useState<ReturnBasis>('total');
+    const [alignmentPolicy, setAlignmentPolicy] = useState<AlignmentPolicy>('forward-fill');
+    const [maxFillGap, setMaxFillGap] = useState(5);
+
+    const [result, setResult] = useState<ComparisonResults | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const handleCompare = useCallback(async () => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setError(null); setResult(null); setLoading(true);
+
+        try {
+            const tickerArr = Array.from(new Set<string>(tickers.split(',').map(t => t.trim().toUpperCase()).filter(Boolean)));
+            if (tickerArr.length === 0) throw new Error('Please enter at least one ticker.');
+            const end = endDate || todayIso();
+            if (!isIsoDate(startDate) || !isIsoDate(end)) throw new Error('Start and end must be valid dates.');
+            if (startDate >= end) throw new Error('The start date must be before the end date.');
+            if (end > todayIso()) throw new Error('The end date cannot be in the future.');
+
+            const { histories, failures, filledDates } = await fetchMultipleStockHistories(tickerArr, 'max', barInterval, {
+                start: startDate,
+                end,
+                signal: controller.signal,
+                alignment: { policy: alignmentPolicy, maxFillGap },
+                adjust: true,
+            });
+            const available = tickerArr.filter(t => histories[t]);
+            const dates = histories[available[0]].map(bar => bar.Date);
+
+            // Every ticker starts at 100 on the first aligned date on or after the start date.
+            const rebased: ComparisonResults['rebased'] = {};
+            available.forEach(t => {
+                const closes = histories[t].map(bar => basisClose(bar, returnBasis));
+                rebased[t] = closes.map(c => (c / closes[0]) * 100);
+            });
+
+            const summaries = available.map(t => {
+                const drawdown = maxDrawdown(rebased[t]);
+                return {
+                    ticker: t,
+                    periodReturn: totalReturn(rebased[t]),
+                    volatility: annualizedVolatility(rebased[t], barsPerYear(barInterval)),
+                    maxDrawdown: drawdown.depth,
+                    maxDrawdownPeak: dates[drawdown.peakIndex],
+                    maxDrawdownTrough: dates[drawdown.troughIndex],
+                };
+            });
+
+            setResult({
+                tickers: available,
+                dates,
+                rebased,
+                summaries,
+                failures,
+                filled: summarizeFilledBars(histories, filledDates),
+            });
+        } catch (err) {
+            if (isAbortError(err)) return;
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            if (!controller.signal.aborted) setLoading(false);
+        }
+    }, [tickers, startDate, endDate, barInterval, returnBasis, alignmentPolicy, maxFillGap]);
+
+    // One row per aligned date with each ticker's value in the current display mode.
+    const handleExport = () => {
+        if (!result) return;
+        const rows = result.dates.map((date, i) => {
+            const row: { [column: string]: string | number } = { Date: date };
+            result.tickers.forEach(t => { row[t] = Number(toDisplay(result.rebased[t][i], mode).toFixed(4)); });
+            return row;
+        });
+        exportToCsv(rows, `comparison_${mode === 'rebased' ? 'rebased' : 'pct_change'}_${result.tickers.join('_')}.csv`);
+    };
+
+    const renderResults = () => {
+        if (!result) return null;
+        return (
+            <div className="mt-8 space-y-8">
+                <DataQualityNotice failures={result.failures} filled={result.filled} />
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="inline-flex rounded-md bg-gray-700/50 p-1 text-xs" role="group" aria-label="Display mode">
+                        {([['rebased', 'Rebased to 100'], ['percent', '% Change']] as [DisplayMode, string][]).map(([value, label]) => (
+                            <button
+                                key={value}
+                                onClick={() => setMode(value)}
+                                className={`px-3 py-1 rounded ${mode === value ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-white'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    <ExportButton onClick={handleExport}>Export Series to CSV</ExportButton>
+                </div>
+                <ComparisonChart result={result} mode={mode} />
+                <SummaryTable summaries={result.summaries} />
+            </div>
+        );
+    };
+
+    const renderContent = () => {
+        if (loading) return <LoadingSpinner />;
+        if (error) return <div className="text-center py-6 px-4 text-red-400 bg-red-900/20 rounded-lg" role="alert"><h3 className="font-semibold">Comparison Error</h3><p className="mt-1 text-sm text-red-300">{error}</p></div>;
+        if (result) return renderResults();
+        return <div className="text-center text-gray-400 p-6"><p>Enter tickers and a start date, then click "Compare".</p></div>;
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="p-4 bg-gray-900/30 rounded-lg">
+                <h3 className="text-lg font-semibold text-gray-200 mb-4 border-b border-gray-700 pb-2">Configuration</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <InputField label="Tickers (comma-separated)" id="compare-tickers"><input id="compare-tickers" type="text" value={tickers} onChange={e => setTickers(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" placeholder="e.g., AAPL,MSFT,QQQ" /></InputField>
+                    <InputField label="Start Date" id="compare-start"><input id="compare-start" type="date" value={startDate} max={todayIso()} onChange={e => setStartDate(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" /></InputField>
+                    <InputField label="End Date (blank = today)" id="compare-end"><input id="compare-end" type="date" value={endDate} max={todayIso()} onChange={e => setEndDate(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" /></InputField>
+                    <InputField label="Bar Interval" id="compare-interval">
+                        <select id="compare-interval" value={barInterval} onChange={e => setBarInterval(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5">
+                            {INTERVAL_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                        </select>
+                    </InputField>
+                    <InputField label="Return Basis" id="compare-basis">
+                        <select id="compare-basis" value={returnBasis} onChange={e => setReturnBasis(e.target.value as ReturnBasis)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5">
+                            {RETURN_BASIS_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                        </select>
+                    </InputField>
+                    <InputField label="Date Alignment" id="compare-alignment">
+                        <select id="compare-alignment" value={alignmentPolicy} onChange={e => setAlignmentPolicy(e.target.value as AlignmentPolicy)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5">
+                            {COMPARISON_ALIGNMENT_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                        </select>
+                    </InputField>
+                    {alignmentPolicy === 'forward-fill' && (
+                        <InputField label="Max Fill Gap (bars)" id="compare-maxFillGap"><input id="compare-maxFillGap" type="number" min={1} value={maxFillGap} onChange={e => setMaxFillGap(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" /></InputField>
+                    )}
+                </div>
+                <div className="mt-6 text-right">
+                    <button onClick={handleCompare} disabled={loading} className="text-white bg-blue-600 hover:bg-blue-700 focus:ring-4 focus:outline-none focus:ring-blue-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:opacity-50 disabled:cursor-wait">
+                        {loading ? 'Comparing...' : 'Compare'}
+                    </button>
+                </div>
+            </div>
+            <div className="min-h-[300px] flex flex-col justify-center">{renderContent()}</div>
+        </div>
+    );
+};
+
+export default PerformanceComparison;
@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { StockData } from '../types';
+import { basisClose, ReturnBasis } from '../services/priceAdjustments';
+import { barsPerYear, formatBarTime, TimeZoneMode } from '../services/marketSessions';
+import { computePerformanceStats, rollingReturns } from '../services/performance';
+
+interface PerformanceStatsProps {
+  // Ascending bars of the loaded history.
+  data: StockData[];
+  interval: string;
+  basis?: ReturnBasis;
+  timeZoneMode?: TimeZoneMode;
+  exchangeTimeZone?: string;
+}
+
+const PERIOD_NAMES: { [interval: string]: string } = { '1d': 'Day', '1wk': 'Week', '1mo': 'Month' };
+
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+const formatRatio = (value: number | null) => (value === null ? 'N/A' : value.toFixed(2));
+const toneOf = (value: number) => (value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-gray-100');
+
+const Metric: React.FC<{ label: string; value: React.ReactNode; detail?: React.ReactNode; className?: string }> = ({ label, value, detail, className }) => (
+  <div className="flex flex-col p-2 rounded-md hover:bg-gray-700/50">
+    <span className="text-sm text-gray-400">{label}</span>
+    <span className={`text-lg font-semibold ${className ?? 'text-gray-100'}`}>{value}</span>
+    {detail && <span className="text-xs text-gray-500">{detail}</span>}
+  </div>
+);
+
+const RollingChart: React.FC<{ values: number[] }> = ({ values }) => {
+  const width = 600, height = 120, pad = 4;
+  const min = Math.min(0, ...values), max = Math.max(0, ...values);
+  const span = max - min || 1;
+  const x = (i: number) => pad + (values.length > 1 ? (i / (values.length - 1)) * (width - 2 * pad) : 0);
+  const y = (v: number) => pad + ((max - v) / span) * (height - 2 * pad);
+  const line = values.map((v, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(v)}`).join(' ');
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" preserveAspectRatio="none" aria-label="Rolling 1-year return">
+      <line x1={pad} x2={width - pad} y1={y(0)} y2={y(0)} stroke="#6b7280" strokeWidth="1" strokeDasharray="3,3" />
+      <path d={`${line} L${x(values.length - 1)},${y(0)} L${x(0)},${y(0)} Z`} fill="#38bdf8" fillOpacity="0.12" />
+      <path d={line} fill="none" stroke="#38bdf8" strokeWidth="1.5" />
+    </svg>
+  );
+};
+
+const PerformanceStats: React.FC<PerformanceStatsProps> = ({
+  data,
+  interval,
+  basis = 'price' as ReturnBasis,
+  timeZoneMode = 'exchange' as TimeZoneMode,
+  exchangeTimeZone,
+}) => {
+  const [riskFreePct, setRiskFreePct] = useState(4);
+  const periodsPerYear = barsPerYear(interval, exchangeTimeZone);
+  const periodName = PERIOD_NAMES[interval] ?? 'Bar';
+  const formatDate = (date: string) => formatBarTime(date, interval, timeZoneMode, exchangeTimeZone);
+
+  const { stats, rolling } = useMemo(() => {
+    const values = data.map(bar => basisClose(bar, basis));
+    const dates = data.map(bar => bar.Date);
+    // A year of bars at this interval (252 daily, 52 weekly, 12 monthly).
+    const rollingValues = rollingReturns(values, periodsPerYear).filter((r): r is number => r !== null);
+    return {
+      stats: computePerformanceStats(values, dates, periodsPerYear, riskFreePct / 100),
+      rolling: rollingValues,
+    };
+  }, [data, basis, periodsPerYear, riskFreePct]);
+
+  if (data.length < 3) return null;
+  const { maxDrawdown: drawdown } = stats;
+  const sortedRolling = [...rolling].sort((a, b) => a - b);
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-4 shadow-md">
+      <div className="flex flex-wrap justify-between items-center gap-3 border-b border-gray-700 pb-2 mb-3">
+        <h3 className="text-lg font-bold text-blue-300">Performance Statistics</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          Risk-free rate (%)
+          <input
+            type="number"
+            step={0.25}
+            value={riskFreePct}
+            onChange={e => setRiskFreePct(Number(e.target.value))}
+            className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-1.5 w-20"
+          />
+        </label>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+        <Metric label="Total Return" value={formatPercent(stats.totalReturn)} className={toneOf(stats.totalReturn)} />
+        <Metric label="CAGR" value={formatPercent(stats.cagr)} className={toneOf(stats.cagr)} />
+        <Metric label="Volatility (ann.)" value={`${(stats.volatility * 100).toFixed(2)}%`} />
+        <Metric label="Sharpe" value={formatRatio(stats.sharpe)} />
+        <Metric label="Sortino" value={formatRatio(stats.sortino)} />
+        <Metric label="Calmar" value={formatRatio(stats.calmar)} />
+        <Metric
+          label="Max Drawdown"
+          value={formatPercent(drawdown.depth)}
+          className={drawdown.depth < 0 ? 'text-red-400' : 'text-gray-100'}
+          detail={drawdown.depth < 0 && (
+            <>
+              {formatDate(data[drawdown.peakIndex].Date)} → {formatDate(data[drawdown.troughIndex].Date)}
+              {', '}
+              {drawdown.recoveryIndex !== null ? `recovered ${formatDate(data[drawdown.recoveryIndex].Date)}` : 'not recovered'}
+            </>
+          )}
+        />
+        <Metric label={`% Positive ${periodName}s`} value={`${(stats.positiveShare * 100).toFixed(1)}%`} detail={`of ${stats.periods.toLocaleString()}`} />
+        {stats.best && <Metric label={`Best ${periodName}`} value={formatPercent(stats.best.value)} className="text-green-400" detail={formatDate(stats.best.date)} />}
+        {stats.worst && <Metric label={`Worst ${periodName}`} value={formatPercent(stats.worst.value)} className="text-red-400" detail={formatDate(stats.worst.date)} />}
+      </div>
+      <div className="mt-4 border-t border-gray-700 pt-3">
+        <h4 className="text-sm font-semibold text-gray-300 mb-2">Rolling 1-Year Return</h4>
+        {rolling.length === 0 ? (
+          <p className="text-sm text-gray-500">Needs more than {periodsPerYear.toLocaleString()} bars; load a longer period.</p>
+        ) : (
+          <>
+            <RollingChart values={rolling} />
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-4 mt-2">
+              <Metric label="Latest" value={formatPercent(rolling[rolling.length - 1])} className={toneOf(rolling[rolling.length - 1])} />
+              <Metric label="Median" value={formatPercent(sortedRolling[Math.floor(sortedRolling.length / 2)])} />
+              <Metric label="Best" value={formatPercent(sortedRolling[sortedRolling.length - 1])} className="text-green-400" />
+              <Metric label="Worst" value={formatPercent(sortedRolling[0])} className="text-red-400" />
+              <Metric label="% Positive" value={`${((rolling.filter(r => r > 0).length / rolling.length) * 100).toFixed(1)}%`} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PerformanceStats;
@@ -0,0 +1,442 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { StockData } from '../types';
+import { formatBarTime, TimeZoneMode } from '../services/marketSessions';
+import { IndicatorOutput } from '../services/indicators';
+
+type ChartType = 'candles' | 'line' | 'area';
+type ScaleType = 'linear' | 'log';
+
+interface PriceChartProps {
+  // Ascending bars, as fetched for the selected period and interval.
+  data: StockData[];
+  interval: string;
+  timeZoneMode?: TimeZoneMode;
+  exchangeTimeZone?: string;
+  // Overlays are drawn on the price axis; pane indicators get a sub-pane each.
+  indicators?: IndicatorOutput[];
+  markers?: ChartMarker[];
+}
+
+// A symbol pinned to one bar, above its high or below its low.
+export interface ChartMarker {
+  // Index into `data`.
+  index: number;
+  position: 'above' | 'below';
+  color: string;
+  // One or two characters drawn next to the symbol.
+  label: string;
+  // Hover text, also listed under the chart while the bar is hovered.
+  title: string;
+  onClick?: () => void;
+}
+
+interface Viewport {
+  start: number;
+  end: number;
+}
+
+const CHART_TYPES: { value: ChartType; label: string }[] = [
+  { value: 'candles', label: 'Candles' },
+  { value: 'line', label: 'Line' },
+  { value: 'area', label: 'Area' },
+];
+
+const WIDTH = 800;
+const PRICE_HEIGHT = 300;
+const VOLUME_HEIGHT = 80;
+const PANE_GAP = 12;
+const MARGIN = { top: 28, right: 64, bottom: 24, left: 8 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const VOLUME_TOP = MARGIN.top + PRICE_HEIGHT + PANE_GAP;
+const INDICATOR_PANE_HEIGHT = 80;
+const paneTop = (index: number) => VOLUME_TOP + VOLUME_HEIGHT + PANE_GAP + index * (INDICATOR_PANE_HEIGHT + PANE_GAP);
+const MIN_VISIBLE_BARS = 10;
+const ZOOM_STEP = 1.25;
+const UP_COLOR = '#4ade80';
+const DOWN_COLOR = '#f87171';
+const LINE_COLOR = '#38bdf8';
+const SERIES_COLORS = ['#fbbf24', '#a78bfa', '#f472b6', '#34d399', '#fb923c', '#60a5fa'];
+
+const clampViewport = (start: number, count: number, total: number): Viewport => {
+  const size = Math.min(total, Math.max(Math.min(MIN_VISIBLE_BARS, total), Math.round(count)));
+  const clampedStart = Math.min(Math.max(0, Math.round(start)), total - size);
+  return { start: clampedStart, end: clampedStart + size - 1 };
+};
+
+const formatPrice = (value: number) =>
+  value >= 1000 ? value.toLocaleString('en-US', { maximumFractionDigits: 0 }) : value.toFixed(value >= 10 ? 2 : 4);
+
+const formatIndicator = (value: number | null) => {
+  if (value === null) return '—';
+  return Math.abs(value) >= 1e5 ? formatVolume(value) : value.toFixed(2);
+};
+
+const formatVolume = (value: number) => {
+  if (value < 0) return `-${formatVolume(-value)}`;
+  if (value >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `${(value / 1e6).toFixed(2)}M`;
+  if (value >= 1e3) return `${(value / 1e3).toFixed(1)}K`;
+  return String(value);
+};
+
+const PriceChart: React.FC<PriceChartProps> = ({
+  data,
+  interval,
+  timeZoneMode = 'exchange' as TimeZoneMode,
+  exchangeTimeZone,
+  indicators = [],
+  markers = [],
+}) => {
+  const bars = data;
+  const total = bars.length;
+  const overlaySeries = indicators
+    .filter(ind => ind.placement === 'overlay')
+    .flatMap(ind => ind.series)
+    .map((series, i) => ({ ...series, color: SERIES_COLORS[i % SERIES_COLORS.length] }));
+  const panes = indicators.filter(ind => ind.placement === 'pane');
+  const height = paneTop(panes.length) - PANE_GAP + MARGIN.bottom;
+  const chartBottom = paneTop(panes.length) - PANE_GAP;
+  const [chartType, setChartType] = useState<ChartType>('candles');
+  const [scaleType, setScaleType] = useState<ScaleType>('linear');
+  const [view, setView] = useState<Viewport>({ start: 0, end: Math.max(0, total - 1) });
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const [hoverY, setHoverY] = useState<number | null>(null);
+  const dragRef = useRef<{ x: number; view: Viewport } | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+
+  // A new fetch (ticker, period or interval change) shows the full series again.
+  useEffect(() => {
+    setView({ start: 0, end: Math.max(0, total - 1) });
+    setHoverIndex(null);
+  }, [bars, total]);
+
+  const count = view.end - view.start + 1;
+  const visible = bars.slice(view.start, view.end + 1);
+  const slot = PLOT_WIDTH / Math.max(1, count);
+
+  let low = Infinity, high = -Infinity;
+  visible.forEach((bar, i) => {
+    low = Math.min(low, chartType === 'candles' ? bar.Low : bar.Close);
+    high = Math.max(high, chartType === 'candles' ? bar.High : bar.Close);
+    overlaySeries.forEach(series => {
+      const value = series.values[view.start + i];
+      if (value !== null && value !== undefined) {
+        low = Math.min(low, value);
+        high = Math.max(high, value);
+      }
+    });
+  });
+  if (!isFinite(low) || !isFinite(high)) { low = 0; high = 1; }
+  if (low === high) { low -= 1; high += 1; }
+  const pricePad = (high - low) * 0.05;
+  // Padding must not push a positive range to zero or below, or log scale would be unusable.
+  low = low > 0 ? Math.max(low - pricePad, low / 2) : low - pricePad;
+  high += pricePad;
+
+  // Log scale needs strictly positive prices; fall back to linear otherwise.
+  const useLog = scaleType === 'log' && low > 0;
+  const transform = (v: number) => (useLog ? Math.log(v) : v);
+  const yScale = (v: number) =>
+    MARGIN.top + PRICE_HEIGHT - ((transform(v) - transform(low)) / (transform(high) - transform(low))) * PRICE_HEIGHT;
+  const yInvert = (y: number) => {
+    const t = transform(low) + ((MARGIN.top + PRICE_HEIGHT - y) / PRICE_HEIGHT) * (transform(high) - transform(low));
+    return useLog ? Math.exp(t) : t;
+  };
+  const xCenter = (i: number) => MARGIN.left + (i + 0.5) * slot;
+  const maxVolume = Math.max(1, ...visible.map(bar => bar.Volume));
+  const volumeScale = (v: number) => VOLUME_TOP + VOLUME_HEIGHT - (v / maxVolume) * VOLUME_HEIGHT;
+
+  const priceTicks = Array.from({ length: 6 }, (_, i) => {
+    const t = transform(low) + ((transform(high) - transform(low)) * i) / 5;
+    return useLog ? Math.exp(t) : t;
+  });
+  const timeTicks = Array.from(new Set(Array.from({ length: 6 }, (_, i) => Math.round(((count - 1) * i) / 5))));
+
+  const toSvgPoint = (clientX: number, clientY: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return { x: 0, y: 0 };
+    return { x: ((clientX - rect.left) * WIDTH) / rect.width, y: ((clientY - rect.top) * height) / rect.height };
+  };
+
+  const zoom = (factor: number, anchorFraction = 0.5) => {
+    setView(prev => {
+      const prevCount = prev.end - prev.start + 1;
+      const nextCount = prevCount * factor;
+      return clampViewport(prev.start + prevCount * anchorFraction - nextCount * anchorFraction, nextCount, total);
+    });
+  };
+
+  // React registers wheel listeners as passive, so page scrolling could not be prevented.
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const { x } = toSvgPoint(e.clientX, e.clientY);
+      const fraction = Math.min(1, Math.max(0, (x - MARGIN.left) / PLOT_WIDTH));
+      zoom(e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP, fraction);
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  });
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    dragRef.current = { x: toSvgPoint(e.clientX, e.clientY).x, view };
+    setDragging(true);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const { x, y } = toSvgPoint(e.clientX, e.clientY);
+    if (dragRef.current) {
+      const shift = (dragRef.current.x - x) / slot;
+      const origin = dragRef.current.view;
+      setView(clampViewport(origin.start + shift, origin.end - origin.start + 1, total));
+    }
+    const index = Math.floor((x - MARGIN.left) / slot);
+    setHoverIndex(index >= 0 && index < count ? index : null);
+    setHoverY(y >= MARGIN.top && y <= MARGIN.top + PRICE_HEIGHT ? y : null);
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+    setDragging(false);
+  };
+  const handleMouseLeave = () => {
+    endDrag();
+    setHoverIndex(null);
+    setHoverY(null);
+  };
+
+  if (total < 2) return null;
+
+  // Path through the visible part of an indicator series, broken wherever it is null.
+  const seriesPath = (values: (number | null)[], y: (v: number) => number) => {
+    let path = '', pen = 'M';
+    visible.forEach((_, i) => {
+      const value = values[view.start + i];
+      if (value === null || value === undefined) { pen = 'M'; return; }
+      path += `${pen}${xCenter(i)},${y(value)} `;
+      pen = 'L';
+    });
+    return path;
+  };
+
+  const renderPane = (indicator: IndicatorOutput, index: number) => {
+    const top = paneTop(index);
+    const bottom = top + INDICATOR_PANE_HEIGHT;
+    const visibleValues = indicator.series.flatMap(s => s.values.slice(view.start, view.end + 1)).filter((v): v is number => v !== null);
+    let [min, max] = indicator.range ?? [Math.min(0, ...visibleValues), Math.max(...visibleValues)];
+    if (!indicator.range && indicator.series.every(s => s.style !== 'histogram')) min = Math.min(...visibleValues);
+    if (!isFinite(min) || !isFinite(max) || min === max) { min = (isFinite(min) ? min : 0) - 1; max = (isFinite(max) ? max : 0) + 1; }
+    const y = (v: number) => bottom - ((v - min) / (max - min)) * INDICATOR_PANE_HEIGHT;
+    const hoveredIndex = view.start + (hoverIndex ?? count - 1);
+    return (
+      <g key={indicator.config.id}>
+        <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={bottom} y2={bottom} stroke="#4b5563" strokeWidth="0.5" />
+        {(indicator.levels ?? []).filter(level => level >= min && level <= max).map(level => (
+          <g key={level} className="text-gray-500">
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(level)} y2={y(level)} stroke="currentColor" strokeWidth="0.5" strokeDasharray="2,3" />
+            <text x={WIDTH - MARGIN.right + 6} y={y(level) + 3} fill="currentColor" className="text-[10px]">{level}</text>
+          </g>
+        ))}
+        <text x={WIDTH - MARGIN.right + 6} y={top + 8} fill="#6b7280" className="text-[10px]">{formatIndicator(max)}</text>
+        {indicator.series.map((series, i) => {
+          const color = SERIES_COLORS[i % SERIES_COLORS.length];
+          if (series.style === 'histogram') {
+            return (
+              <g key={series.key}>
+                {visible.map((bar, j) => {
+                  const value = series.values[view.start + j];
+                  if (value === null || value === undefined) return null;
+                  const zero = y(Math.min(max, Math.max(min, 0)));
+                  return <rect key={bar.Date} x={xCenter(j) - bodyWidth / 2} y={Math.min(zero, y(value))} width={bodyWidth} height={Math.abs(zero - y(value))} fill={value >= 0 ? UP_COLOR : DOWN_COLOR} fillOpacity="0.5" />;
+                })}
+              </g>
+            );
+          }
+          return <path key={series.key} d={seriesPath(series.values, y)} fill="none" stroke={color} strokeWidth="1.25" />;
+        })}
+        <text x={MARGIN.left + 4} y={top + 10} className="text-[10px]" fill="#9ca3af">
+          <tspan>{indicator.label}</tspan>
+          {indicator.series.map((series, i) => (
+            <tspan key={series.key} dx="8" fill={series.style === 'histogram' ? '#9ca3af' : SERIES_COLORS[i % SERIES_COLORS.length]}>
+              {formatIndicator(series.values[hoveredIndex] ?? null)}
+            </tspan>
+          ))}
+        </text>
+      </g>
+    );
+  };
+
+  const closePath = visible.map((bar, i) => `${i === 0 ? 'M' : 'L'}${xCenter(i)},${yScale(bar.Close)}`).join(' ');
+  const areaPath = `${closePath} L${xCenter(count - 1)},${MARGIN.top + PRICE_HEIGHT} L${xCenter(0)},${MARGIN.top + PRICE_HEIGHT} Z`;
+  const bodyWidth = Math.max(1, slot * 0.7);
+  const hovered = hoverIndex !== null ? visible[hoverIndex] : visible[visible.length - 1];
+  const previous = hoverIndex !== null ? (bars[view.start + hoverIndex - 1] ?? hovered) : visible[visible.length - 2];
+  const change = previous && previous.Close !== 0 ? hovered.Close / previous.Close - 1 : 0;
+  const hoveredMarkers = hoverIndex !== null ? markers.filter(m => m.index === view.start + hoverIndex) : [];
+  const buttonClass = (active: boolean) =>
+    `px-2.5 py-1 text-xs rounded-md transition-colors ${active ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-4 shadow-2xl">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <div className="flex gap-1" role="group" aria-label="Chart type">
+          {CHART_TYPES.map(opt => (
+            <button key={opt.value} onClick={() => setChartType(opt.value)} className={buttonClass(chartType === opt.value)}>{opt.label}</button>
+          ))}
+        </div>
+        <div className="flex gap-1" role="group" aria-label="Price scale">
+          <button onClick={() => setScaleType('linear')} className={buttonClass(scaleType === 'linear')}>Linear</button>
+          <button onClick={() => setScaleType('log')} className={buttonClass(scaleType === 'log')}>Log</button>
+        </div>
+        <div className="flex gap-1" role="group" aria-label="Zoom">
+          <button onClick={() => zoom(1 / ZOOM_STEP)} className={buttonClass(false)} aria-label="Zoom in">+</button>
+          <button onClick={() => zoom(ZOOM_STEP)} className={buttonClass(false)} aria-label="Zoom out">−</button>
+          <button onClick={() => setView({ start: 0, end: total - 1 })} className={buttonClass(false)}>Reset</button>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className={`w-full h-auto select-none ${dragging ? 'cursor-grabbing' : 'cursor-crosshair'}`}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={endDrag}
+        onMouseLeave={handleMouseLeave}
+        role="img"
+        aria-label="Price chart"
+      >
+        {/* Readout for the hovered (or latest) bar */}
+        <text x={MARGIN.left} y={16} className="text-[11px]" fill="#d1d5db">
+          <tspan fill="#9ca3af">{formatBarTime(hovered.Date, interval, timeZoneMode, exchangeTimeZone)}</tspan>
+          <tspan dx="10">O {formatPrice(hovered.Open)}</tspan>
+          <tspan dx="8">H {formatPrice(hovered.High)}</tspan>
+          <tspan dx="8">L {formatPrice(hovered.Low)}</tspan>
+          <tspan dx="8">C {formatPrice(hovered.Close)}</tspan>
+          <tspan dx="8" fill={change >= 0 ? UP_COLOR : DOWN_COLOR}>{change >= 0 ? '+' : ''}{(change * 100).toFixed(2)}%</tspan>
+          <tspan dx="8" fill="#9ca3af">Vol {formatVolume(hovered.Volume)}</tspan>
+        </text>
+        {overlaySeries.length > 0 && (
+          <text x={MARGIN.left + 4} y={MARGIN.top + 12} className="text-[10px]">
+            {overlaySeries.map((series, i) => (
+              <tspan key={series.key} dx={i === 0 ? 0 : 10} fill={series.color}>
+                {series.key} {formatIndicator(series.values[view.start + (hoverIndex ?? count - 1)] ?? null)}
+              </tspan>
+            ))}
+          </text>
+        )}
+
+        {/* Price grid and axis */}
+        <g className="text-gray-500">
+          {priceTicks.map(tick => (
+            <g key={tick}>
+              <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={yScale(tick)} y2={yScale(tick)} stroke="currentColor" strokeWidth="0.5" strokeDasharray="2,3" />
+              <text x={WIDTH - MARGIN.right + 6} y={yScale(tick) + 3} fill="currentColor" className="text-[10px]">{formatPrice(tick)}</text>
+            </g>
+          ))}
+          {timeTicks.map(i => (
+            <text key={i} x={xCenter(i)} y={height - 6} textAnchor="middle" fill="currentColor" className="text-[10px]">
+              {formatBarTime(visible[i].Date, interval, timeZoneMode, exchangeTimeZone)}
+            </text>
+          ))}
+        </g>
+
+        {/* Price series */}
+        {chartType === 'area' && <path d={areaPath} fill={LINE_COLOR} fillOpacity="0.15" />}
+        {chartType !== 'candles' && <path d={closePath} fill="none" stroke={LINE_COLOR} strokeWidth="1.5" />}
+        {chartType === 'candles' && visible.map((bar, i) => {
+          const color = bar.Close >= bar.Open ? UP_COLOR : DOWN_COLOR;
+          const top = yScale(Math.max(bar.Open, bar.Close));
+          const bottom = yScale(Math.min(bar.Open, bar.Close));
+          return (
+            <g key={bar.Date}>
+              <line x1={xCenter(i)} x2={xCenter(i)} y1={yScale(bar.High)} y2={yScale(bar.Low)} stroke={color} strokeWidth="1" />
+              <rect x={xCenter(i) - bodyWidth / 2} y={top} width={bodyWidth} height={Math.max(1, bottom - top)} fill={color} />
+            </g>
+          );
+        })}
+
+        {/* Indicator overlays */}
+        {overlaySeries.map(series => (
+          <path key={series.key} d={seriesPath(series.values, yScale)} fill="none" stroke={series.color} strokeWidth="1.25" />
+        ))}
+
+        {/* Markers; several on the same side of a bar are stacked outward */}
+        {(() => {
+          const stacked = new Map<string, number>();
+          return markers.filter(m => m.index >= view.start && m.index <= view.end).map((marker, k) => {
+            const i = marker.index - view.start;
+            const key = `${marker.index}-${marker.position}`;
+            const level = stacked.get(key) ?? 0;
+            stacked.set(key, level + 1);
+            const above = marker.position === 'above';
+            const anchor = above ? yScale(bars[marker.index].High) - 6 - level * 14 : yScale(bars[marker.index].Low) + 6 + level * 14;
+            const x = xCenter(i);
+            const points = above
+              ? `${x - 4},${anchor - 6} ${x + 4},${anchor - 6} ${x},${anchor}`
+              : `${x - 4},${anchor + 6} ${x + 4},${anchor + 6} ${x},${anchor}`;
+            return (
+              <g
+                key={k}
+                className={marker.onClick ? 'cursor-pointer' : undefined}
+                onMouseDown={marker.onClick ? e => e.stopPropagation() : undefined}
+                onClick={marker.onClick}
+              >
+                <title>{marker.title}</title>
+                <polygon points={points} fill={marker.color} />
+                <text x={x + 6} y={above ? anchor - 1 : anchor + 7} fill={marker.color} className="text-[9px]">{marker.label}</text>
+              </g>
+            );
+          });
+        })()}
+
+        {/* Volume pane */}
+        <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={VOLUME_TOP + VOLUME_HEIGHT} y2={VOLUME_TOP + VOLUME_HEIGHT} stroke="#4b5563" strokeWidth="0.5" />
+        <text x={WIDTH - MARGIN.right + 6} y={VOLUME_TOP + 8} fill="#6b7280" className="text-[10px]">{formatVolume(maxVolume)}</text>
+        {visible.map((bar, i) => (
+          <rect
+            key={bar.Date}
+            x={xCenter(i) - bodyWidth / 2}
+            y={volumeScale(bar.Volume)}
+            width={bodyWidth}
+            height={VOLUME_TOP + VOLUME_HEIGHT - volumeScale(bar.Volume)}
+            fill={bar.Close >= bar.Open ? UP_COLOR : DOWN_COLOR}
+            fillOpacity="0.45"
+          />
+        ))}
+
+        {/* Indicator panes */}
+        {panes.map(renderPane)}
+
+        {/* Crosshair */}
+        {hoverIndex !== null && (
+          <g pointerEvents="none">
+            <line x1={xCenter(hoverIndex)} x2={xCenter(hoverIndex)} y1={MARGIN.top} y2={chartBottom} stroke="#9ca3af" strokeWidth="0.5" strokeDasharray="3,3" />
+            {hoverY !== null && (
+              <>
+                <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={hoverY} y2={hoverY} stroke="#9ca3af" strokeWidth="0.5" strokeDasharray="3,3" />
+                <rect x={WIDTH - MARGIN.right + 2} y={hoverY - 8} width={MARGIN.right - 4} height={16} rx="2" fill="#374151" />
+                <text x={WIDTH - MARGIN.right + 6} y={hoverY + 3} fill="#f3f4f6" className="text-[10px]">{formatPrice(yInvert(hoverY))}</text>
+              </>
+            )}
+          </g>
+        )}
+      </svg>
+      <div className="mt-1 flex justify-between gap-4 text-[11px] text-gray-500">
+        <div className="min-w-0 truncate">
+          {hoveredMarkers.map((marker, k) => (
+            <span key={k} className="mr-3" style={{ color: marker.color }}>{marker.title}</span>
+          ))}
+        </div>
+        <p className="shrink-0">
+          Showing {count.toLocaleString()} of {total.toLocaleString()} bars · scroll to zoom, drag to pan
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default PriceChart;
@@ -1,16 +1,7 @@
 import React from 'react';
 import { exportToCsv } from '../utils/csvExporter';
 import ExportButton from './ExportButton';
-
-interface Recommendation {
-  period: string;
-  strongBuy: number;
-  buy: number;
-
-  hold: number;
-  sell: number;
-  strongSell: number;
-}
+import { Recommendation } from '../types';
 
 interface RecommendationsDisplayProps {
   data: Recommendation[];
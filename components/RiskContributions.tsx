@@ -0,0 +1,130 @@
+import React from 'react';
+import { RiskDecomposition } from '../services/riskModels';
+
+interface RiskContributionsProps {
+  decomposition: RiskDecomposition;
+  confidence: number;
+  portfolioValue: number;
+  formatMoney: (value: number) => string;
+}
+
+const BARS = [
+  { key: 'standaloneVar', label: 'Standalone VaR', color: '#6b7280' },
+  { key: 'componentVar', label: 'Component VaR', color: '#fdba74' },
+  { key: 'componentEs', label: 'Component ES', color: '#f87171' },
+] as const;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const ContributionChart: React.FC<{ decomposition: RiskDecomposition }> = ({ decomposition }) => {
+  const { positions } = decomposition;
+  const rowHeight = 14 * BARS.length + 10;
+  const width = 800, margin = { top: 6, right: 70, bottom: 6, left: 70 };
+  const height = margin.top + margin.bottom + rowHeight * positions.length;
+  const values = positions.flatMap(p => BARS.map(bar => p[bar.key]));
+  const min = Math.min(0, ...values), max = Math.max(0.0001, ...values);
+  const xScale = (v: number) => margin.left + ((v - min) / (max - min)) * (width - margin.left - margin.right);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" aria-label="Risk contribution by position">
+      {positions.map((p, row) => {
+        const top = margin.top + row * rowHeight;
+        return (
+          <g key={p.ticker}>
+            <text x={margin.left - 8} y={top + rowHeight / 2} textAnchor="end" fill="#93c5fd" className="text-xs font-mono">{p.ticker}</text>
+            {BARS.map((bar, k) => {
+              const value = p[bar.key];
+              return (
+                <g key={bar.key}>
+                  <rect
+                    x={Math.min(xScale(0), xScale(value))}
+                    y={top + 4 + k * 14}
+                    width={Math.max(1, Math.abs(xScale(value) - xScale(0)))}
+                    height={10}
+                    fill={bar.color}
+                    fillOpacity="0.8"
+                  >
+                    <title>{`${p.ticker} ${bar.label}: ${formatPercent(value)}`}</title>
+                  </rect>
+                  <text x={Math.max(xScale(0), xScale(value)) + 4} y={top + 13 + k * 14} fill="#9ca3af" className="text-[10px]">{formatPercent(value)}</text>
+                </g>
+              );
+            })}
+          </g>
+        );
+      })}
+      <line x1={xScale(0)} x2={xScale(0)} y1={margin.top} y2={height - margin.bottom} stroke="#9ca3af" strokeWidth="0.75" />
+    </svg>
+  );
+};
+
+const RiskContributions: React.FC<RiskContributionsProps> = ({ decomposition, confidence, portfolioValue, formatMoney }) => {
+  const { positions, totalVar, totalEs, diversificationBenefit } = decomposition;
+  const share = (part: number, whole: number) => (whole !== 0 ? `${((part / whole) * 100).toFixed(1)}%` : '—');
+  const standaloneSum = positions.reduce((sum, p) => sum + p.standaloneVar, 0);
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-4 shadow-md">
+      <div className="flex flex-wrap justify-between items-center gap-3 border-b border-gray-700 pb-2 mb-3">
+        <h3 className="text-lg font-bold text-blue-300">Risk Contribution by Position</h3>
+        <span className="text-xs text-gray-400">
+          Diversification benefit <span className="font-mono text-green-300">{formatPercent(diversificationBenefit)}</span> (~ {formatMoney(diversificationBenefit * portfolioValue)})
+        </span>
+      </div>
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        <div className="overflow-x-auto rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-700/50 text-gray-300">
+              <tr>
+                {['Ticker', 'Weight', 'Standalone VaR', 'Marginal VaR', 'Component VaR', '% of VaR', 'Component ES', '% of ES', 'Incremental VaR'].map(header => (
+                  <th key={header} className="px-3 py-2 text-left font-medium whitespace-nowrap">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700 font-mono">
+              {positions.map(p => (
+                <tr key={p.ticker}>
+                  <td className="px-3 py-2 text-blue-300">{p.ticker}</td>
+                  <td className="px-3 py-2 text-gray-300">{(p.weight * 100).toFixed(1)}%</td>
+                  <td className="px-3 py-2 text-gray-300">{formatPercent(p.standaloneVar)}</td>
+                  <td className="px-3 py-2 text-gray-300">{formatPercent(p.marginalVar)}</td>
+                  <td className="px-3 py-2 text-orange-300">{formatPercent(p.componentVar)}</td>
+                  <td className="px-3 py-2 text-gray-200">{share(p.componentVar, totalVar)}</td>
+                  <td className="px-3 py-2 text-red-300">{formatPercent(p.componentEs)}</td>
+                  <td className="px-3 py-2 text-gray-200">{share(p.componentEs, totalEs)}</td>
+                  <td className={`px-3 py-2 ${p.incrementalVar < 0 ? 'text-green-300' : 'text-gray-300'}`}>{formatPercent(p.incrementalVar)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="border-t-2 border-gray-600 font-mono">
+              <tr>
+                <td className="px-3 py-2 font-sans text-gray-400">Portfolio</td>
+                <td className="px-3 py-2 text-gray-500">100%</td>
+                <td className="px-3 py-2 text-gray-400" title="Sum of standalone VaRs">{formatPercent(standaloneSum)}</td>
+                <td className="px-3 py-2 text-gray-500">—</td>
+                <td className="px-3 py-2 text-orange-300">{formatPercent(totalVar)}</td>
+                <td className="px-3 py-2 text-gray-400">100%</td>
+                <td className="px-3 py-2 text-red-300">{formatPercent(totalEs)}</td>
+                <td className="px-3 py-2 text-gray-400">100%</td>
+                <td className="px-3 py-2 text-gray-500">—</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+        <div>
+          <ContributionChart decomposition={decomposition} />
+          <div className="flex justify-center gap-4 text-xs mt-1 text-gray-400">
+            {BARS.map(bar => (
+              <span key={bar.key} className="flex items-center"><span className="w-3 h-2 mr-1.5" style={{ backgroundColor: bar.color }}></span>{bar.label}</span>
+            ))}
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mt-3">
+        Historical simulation at {confidence}%, in percent of portfolio value. Component VaR and ES add up to the portfolio figures; a negative component means the position hedges the tail. Marginal VaR is the change in VaR per unit of weight, and incremental VaR the change from dropping the position entirely.
+      </p>
+    </div>
+  );
+};
+
+export default RiskContributions;
@@ -1,15 +1,95 @@
-import React, { useState, useCallback } from 'react';
-import { fetchMultipleStockHistories } from '../services/stockService';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { fetchMultipleStockHistories, HistoryFetchFailure } from '../services/stockService';
+import { isAbortError, mapWithConcurrency } from '../services/http';
+import {
+  BASE_CURRENCY_OPTIONS,
+  fetchFxSeries,
+  fetchQuoteCurrencies,
+  FxSeries,
+  ratesForBars,
+} from '../services/fxConversion';
+import {
+  ALIGNMENT_POLICY_OPTIONS,
+  AlignmentPolicy,
+  alignmentKey,
+  FilledBarsSummary,
+  summarizeFilledBars,
+} from '../services/historyAlignment';
+import { basisClose, RETURN_BASIS_OPTIONS, ReturnBasis } from '../services/priceAdjustments';
+import {
+  calculateVaRAndES,
+  decomposeHistoricalRisk,
+  estimateAllMethods,
+  MethodEstimate,
+  MonteCarloOptions,
+  RiskDecomposition,
+  tailContributions,
+  VAR_METHOD_OPTIONS,
+  VaRMethod,
+} from '../services/riskModels';
+import { backtestDataError } from '../services/varBacktest';
+import { VOLATILITY_MODEL_OPTIONS, VolatilityFilterOptions, VolatilityModel } from '../services/volatilityModels';
+import { isLocalSymbol } from '../services/localDatasets';
 import { StockData } from '../types';
+import { isIsoDate, lookbackRange, todayIso } from '../utils/dateRange';
 import LoadingSpinner from './LoadingSpinner';
+import DataQualityNotice from './DataQualityNotice';
+import DrawdownAnalysis from './DrawdownAnalysis';
+import DistributionDiagnostics from './DistributionDiagnostics';
+import VaRBacktest from './VaRBacktest';
+import RiskContributions from './RiskContributions';
+import StressTesting from './StressTesting';
+
+interface PositionCurrency {
+  ticker: string;
+  currency: string;
+  // True when the profile had no currency and the base currency was assumed.
+  assumed: boolean;
+  fxSymbol?: string;
+  weight: number;
+}
+
+// Risk from local asset moves versus currency moves, all over the horizon in base currency.
+// Contributions split the portfolio ES over its tail days and sum to it.
+interface FxRiskSplit {
+  localVarPct: number;
+  fxVarPct: number;
+  localEsContribution: number;
+  fxEsContribution: number;
+  interactionEsContribution: number;
+}
 
 interface RiskResult {
-  varPct: number;
-  esPct: number;
-  varUsd: number;
-  esUsd: number;
+  // One estimate per method, as fractions of portfolio value over the horizon.
+  estimates: MethodEstimate[];
+  // Historical VaR/ES broken down by position.
+  decomposition: RiskDecomposition;
+  portfolioValue: number;
+  baseCurrency: string;
+  positions: PositionCurrency[];
+  fxSplit?: FxRiskSplit;
   confidence: number;
   horizon: number;
+  failures: HistoryFetchFailure[];
+  filled: FilledBarsSummary[];
+  weightNote?: string;
+  windowStart: string;
+  windowEnd: string;
+  // Portfolio value (base currency, starting at 100) over the lookback window, for drawdowns.
+  valueDates: string[];
+  values: number[];
+  // Daily base-currency portfolio returns the VaR was estimated from.
+  returns: number[];
+  // Aligned base-currency returns over the lookback plus the backtest window, run on demand by
+  // the backtest panel, or why there are too few of them.
+  backtestReturns: { dates: string[]; returns: number[][]; weights: number[] };
+  backtestWindow: number;
+  backtestNote?: string;
+  monteCarlo: MonteCarloOptions;
+  volatilityFilter: VolatilityFilterOptions;
+  // Aligned daily base-currency returns per position, for the stress test betas.
+  assetReturns: { tickers: string[]; dates: string[]; returns: number[][] };
+  returnBasis: ReturnBasis;
 }
 
 // --- Calculation Helpers ---
@@ -25,63 +105,47 @@ const calculateReturns = (prices: number[]): number[] => {
   return returns;
 };
 
-const calculatePortfolioReturns = (
-  alignedHistories: { [ticker: string]: { Close: number }[] },
-  weights: { [ticker: string]: number }
-): number[] => {
+// Joins asset returns by calendar day, so it works for forward-filled, intersected and unfilled
+// histories alike, across exchanges in different time zones. Only days on which every asset
+// has a return are used; they are reported with the first asset's bar dates.
+const alignAssetReturns = (
+  alignedHistories: { [ticker: string]: { Date: string; Close: number }[] }
+): { tickers: string[]; dates: string[]; returns: number[][] } => {
   const tickers = Object.keys(alignedHistories);
-  if (tickers.length === 0) return [];
-  
-  const assetReturns: { [ticker: string]: number[] } = {};
-  for (const ticker of tickers) {
-    const prices = alignedHistories[ticker].map(d => d.Close);
-    assetReturns[ticker] = calculateReturns(prices);
-  }
+  if (tickers.length === 0) return { tickers, dates: [], returns: [] };
 
-  const numReturns = assetReturns[tickers[0]].length;
-  const portfolioReturns: number[] = [];
-  for (let i = 0; i < numReturns; i++) {
-    let dailyPortfolioReturn = 0;
-    for (const ticker of tickers) {
-      dailyPortfolioReturn += (assetReturns[ticker][i] || 0) * (weights[ticker] || 0);
-    }
-    portfolioReturns.push(dailyPortfolioReturn);
+  const assetReturns: { [ticker: string]: Map<string, number> } = {};
+  for (const ticker of tickers) {
+    const history = alignedHistories[ticker];
+    const returns = calculateReturns(history.map(d => d.Close));
+    assetReturns[ticker] = new Map(returns.map((r, i) => [alignmentKey(history[i + 1].Date, '1d'), r]));
   }
 
-  return portfolioReturns;
+  const dates = alignedHistories[tickers[0]].slice(1).map(d => d.Date)
+    .filter(date => tickers.every(ticker => assetReturns[ticker].has(alignmentKey(date, '1d'))));
+  const keys = dates.map(date => alignmentKey(date, '1d'));
+  return { tickers, dates, returns: tickers.map(ticker => keys.map(key => assetReturns[ticker].get(key)!)) };
 };
 
-const calculateVaRAndES = (
-  portfolioReturns: number[],
-  confidenceLevel: number
-): { var: number; es: number } => {
-  if (portfolioReturns.length === 0) return { var: 0, es: 0 };
-  
-  const sortedReturns = [...portfolioReturns].sort((a, b) => a - b);
-  const alpha = 1 - (confidenceLevel / 100);
-  const index = Math.floor(alpha * sortedReturns.length);
-
-  const VaR = sortedReturns[index] || 0;
-  const tailReturns = sortedReturns.slice(0, index);
-  const ES = tailReturns.length > 0
-    ? tailReturns.reduce((sum, r) => sum + r, 0) / tailReturns.length
-    : VaR;
+const calculatePortfolioReturns = (
+  alignedHistories: { [ticker: string]: { Date: string; Close: number }[] },
+  weights: { [ticker: string]: number }
+): number[] => calculateDatedPortfolioReturns(alignedHistories, weights).map(r => r.value);
 
-  return { var: -VaR, es: -ES };
+// Portfolio returns keyed by the date of the bar that closes each return.
+const calculateDatedPortfolioReturns = (
+  alignedHistories: { [ticker: string]: { Date: string; Close: number }[] },
+  weights: { [ticker: string]: number }
+): { date: string; value: number }[] => {
+  const { tickers, dates, returns } = alignAssetReturns(alignedHistories);
+  return dates.map((date, t) => ({
+    date,
+    value: tickers.reduce((sum, ticker, i) => sum + returns[i][t] * (weights[ticker] || 0), 0),
+  }));
 };
 
-// Maps a lookback in days to a valid yfinance API period string.
-const getPeriodForLookback = (days: number): string => {
-    // Assuming ~21 trading days per month. Add a small buffer.
-    if (days <= 22) return '1mo';
-    if (days <= 66) return '3mo';
-    if (days <= 130) return '6mo';
-    if (days <= 260) return '1y';
-    if (days <= 510) return '2y';
-    if (days <= 1270) return '5y';
-    if (days <= 2530) return '10y';
-    return 'max';
-};
+const formatWindowDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
 
 // Define InputField outside the main component to prevent re-creation on re-renders
 const InputField: React.FC<{ label: string; id: string; children: React.ReactNode }> = ({ label, id, children }) => (
@@ -95,15 +159,38 @@ const RiskEngineDisplay: React.FC = () => {
   const [tickers, setTickers] = useState('AAPL,GOOG,MSFT');
   const [weights, setWeights] = useState('0.4,0.3,0.3');
   const [portfolioValue, setPortfolioValue] = useState(100000);
+  const [baseCurrency, setBaseCurrency] = useState('USD');
   const [lookback, setLookback] = useState(252);
   const [horizon, setHorizon] = useState(10);
   const [confidence, setConfidence] = useState(99);
+  const [alignmentPolicy, setAlignmentPolicy] = useState<AlignmentPolicy>('forward-fill');
+  const [maxFillGap, setMaxFillGap] = useState(5);
+  const [returnBasis, setReturnBasis] = useState<ReturnBasis>('total');
+  // Empty means "as of today".
+  const [asOf, setAsOf] = useState('');
+  // Method shown in the headline cards; every method is computed for the comparison table.
+  const [method, setMethod] = useState<VaRMethod>('historical');
+  const [mcPaths, setMcPaths] = useState(10000);
+  const [mcSeed, setMcSeed] = useState(42);
+  // Volatility filter for filtered historical simulation.
+  const [volatilityModel, setVolatilityModel] = useState<VolatilityModel>('ewma');
+  const [ewmaLambda, setEwmaLambda] = useState(0.94);
+  // Days of history behind each out-of-sample VaR forecast in the backtest.
+  const [backtestWindow, setBacktestWindow] = useState(250);
   
   const [result, setResult] = useState<RiskResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Cancel any in-flight history requests when the engine is closed.
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const handleCalculate = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setError(null);
     setResult(null);
     setLoading(true);
@@ -118,76 +205,356 @@ const RiskEngineDisplay: React.FC = () => {
       const weightSum = weightArr.reduce((sum, w) => sum + w, 0);
       if (Math.abs(weightSum - 1.0) > 0.01) throw new Error(`Weights must sum to 1. Current sum: ${weightSum.toFixed(2)}`);
       if (portfolioValue <= 0 || lookback <= 1 || horizon <= 0) throw new Error('Portfolio Value, Lookback, and Horizon must be positive numbers.');
+      if (asOf && (!isIsoDate(asOf) || asOf > todayIso())) throw new Error('The "as of" date must be a valid date that is not in the future.');
+      if (!Number.isInteger(mcPaths) || mcPaths < 1000 || mcPaths > 100000) throw new Error('Monte Carlo paths must be a whole number between 1,000 and 100,000.');
+      if (!Number.isInteger(mcSeed) || mcSeed < 0) throw new Error('The random seed must be a non-negative whole number.');
+      if (!(ewmaLambda > 0 && ewmaLambda < 1)) throw new Error('The EWMA lambda must be between 0 and 1.');
+      if (!Number.isInteger(backtestWindow) || backtestWindow < 50) throw new Error('The backtest window must be a whole number of at least 50 days.');
+      if (mcPaths * horizon * tickerArr.length > 50_000_000) throw new Error('Too many Monte Carlo draws; reduce the paths, the horizon or the number of tickers.');
 
-      const weightsMap = tickerArr.reduce((acc, ticker, i) => {
-        acc[ticker] = weightArr[i];
-        return acc;
-      }, {} as { [ticker: string]: number });
-      
       // --- 2. Data Fetching ---
-      // Map the lookback days to a valid API period string to ensure enough data is fetched.
-      const period = getPeriodForLookback(lookback);
-      const alignedHistories = await fetchMultipleStockHistories(tickerArr, period, '1d');
+      // Request a calendar window just large enough for the lookback, ending on the "as of" date,
+      // plus the backtest's estimation window in front of it.
+      const { start, end } = lookbackRange(lookback + backtestWindow, asOf || undefined);
+      const { histories: alignedHistories, failures, filledDates } = await fetchMultipleStockHistories(tickerArr, 'max', '1d', {
+        start,
+        end,
+        signal: controller.signal,
+        alignment: { policy: alignmentPolicy, maxFillGap },
+        adjust: true,
+      });
       
+      // --- 3. Currencies ---
+      // Positions whose currency pair has no FX history cannot be restated and are excluded.
+      const loadedTickers = Object.keys(alignedHistories);
+      const quoteCurrencies = await fetchQuoteCurrencies(loadedTickers, controller.signal);
+      const currencyOf = (ticker: string) => quoteCurrencies[ticker] ?? baseCurrency;
+      const foreignCurrencies = Array.from(new Set(loadedTickers.map(currencyOf))).filter(c => c !== baseCurrency);
+      const fxSeries: { [currency: string]: FxSeries } = {};
+      const fxErrors: { [currency: string]: string } = {};
+      await mapWithConcurrency(foreignCurrencies, 4, async currency => {
+        try {
+          fxSeries[currency] = await fetchFxSeries(currency, baseCurrency, { start, end }, controller.signal);
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          fxErrors[currency] = err instanceof Error ? err.message : `no FX history for ${currency}/${baseCurrency}.`;
+        }
+      });
+      const fxFailures = loadedTickers
+        .filter(t => fxErrors[currencyOf(t)])
+        .map(t => ({ ticker: t, reason: fxErrors[currencyOf(t)] }));
+      const allFailures = [...failures, ...fxFailures];
+
       // The service returns data aligned by date. Now, we need to ensure we only use the number of days specified by the lookback.
-      const finalHistories: { [ticker: string]: { Close: number }[] } = {};
-      const tickerKeys = Object.keys(alignedHistories);
+      const finalHistories: { [ticker: string]: StockData[] } = {};
+      const tickerKeys = loadedTickers.filter(t => !fxErrors[currencyOf(t)]);
+      if (tickerKeys.length === 0) throw new Error('No position could be converted into the base currency.');
+      const overlappingDays = Math.min(...tickerKeys.map(t => alignedHistories[t].length));
 
-      if (tickerKeys.length > 0 && alignedHistories[tickerKeys[0]].length < lookback) {
-        throw new Error(`Not enough overlapping data for the requested lookback period. Found ${alignedHistories[tickerKeys[0]].length} overlapping days, but need ${lookback}. Try a smaller lookback period or different tickers.`);
+      if (overlappingDays < lookback) {
+        throw new Error(`Not enough overlapping data for the requested lookback period. Found ${overlappingDays} overlapping days, but need ${lookback}. Try a smaller lookback period or different tickers.`);
       }
 
-      for(const ticker in alignedHistories) {
+      for (const ticker of tickerKeys) {
           finalHistories[ticker] = alignedHistories[ticker].slice(-lookback);
       }
+
+      // Tickers that failed to load are dropped; the remaining weights are rescaled to sum to 1.
+      const loadedWeightSum = tickerKeys.reduce((sum, t) => sum + weightArr[tickerArr.indexOf(t)], 0);
+      const weightsMap = tickerKeys.reduce((acc, ticker) => {
+        acc[ticker] = weightArr[tickerArr.indexOf(ticker)] / loadedWeightSum;
+        return acc;
+      }, {} as { [ticker: string]: number });
       
-      // --- 3. Calculation ---
-      const portfolioReturns = calculatePortfolioReturns(finalHistories, weightsMap);
-      const { var: dailyVaR, es: dailyES } = calculateVaRAndES(portfolioReturns, confidence);
-      
+      // --- 4. Calculation ---
+      // Base-currency price = local price x FX rate, so each position's base return combines a
+      // local leg, an FX leg and their product. The three portfolios share the same dates.
+      const currencyLegs = (histories: { [ticker: string]: StockData[] }) => {
+        const local: { [ticker: string]: { Date: string; Close: number }[] } = {};
+        const fx: { [ticker: string]: { Date: string; Close: number }[] } = {};
+        const base: { [ticker: string]: { Date: string; Close: number }[] } = {};
+        for (const ticker of tickerKeys) {
+          const bars = histories[ticker];
+          const series = fxSeries[currencyOf(ticker)];
+          const rates = series ? ratesForBars(bars, series) : bars.map(() => 1);
+          local[ticker] = bars.map(d => ({ Date: d.Date, Close: basisClose(d, returnBasis) }));
+          fx[ticker] = bars.map((d, i) => ({ Date: d.Date, Close: rates[i] }));
+          base[ticker] = local[ticker].map((d, i) => ({ Date: d.Date, Close: d.Close * rates[i] }));
+        }
+        return { local, fx, base };
+      };
+      const { local: localHistories, fx: fxHistories, base: baseHistories } = currencyLegs(finalHistories);
+      const datedReturns = calculateDatedPortfolioReturns(baseHistories, weightsMap);
+      const portfolioReturns = datedReturns.map(r => r.value);
+      // Daily-rebalanced portfolio value, starting at 100 on the first day of the window.
+      const values = [100];
+      portfolioReturns.forEach(r => values.push(values[values.length - 1] * (1 + r)));
+      const assetReturns = alignAssetReturns(baseHistories);
+      const estimates = estimateAllMethods(
+        assetReturns.returns,
+        assetReturns.tickers.map(ticker => weightsMap[ticker]),
+        portfolioReturns,
+        confidence,
+        horizon,
+        { paths: mcPaths, seed: mcSeed },
+        { model: volatilityModel, lambda: ewmaLambda }
+      );
+      const decomposition = decomposeHistoricalRisk(
+        assetReturns.tickers,
+        assetReturns.returns,
+        assetReturns.tickers.map(ticker => weightsMap[ticker]),
+        confidence,
+        horizon
+      );
+
       // Scale by time (sqrt of horizon)
-      const varPct = dailyVaR * Math.sqrt(horizon);
-      const esPct = dailyES * Math.sqrt(horizon);
+      const scale = Math.sqrt(horizon);
+
+      // The backtest's forecasts for the lookback days are estimated from the days before them,
+      // so it runs on the longer history that was fetched.
+      const backtestHistories = tickerKeys.reduce((acc, ticker) => {
+        acc[ticker] = alignedHistories[ticker].slice(-(lookback + backtestWindow));
+        return acc;
+      }, {} as { [ticker: string]: StockData[] });
+      const backtestAligned = alignAssetReturns(currencyLegs(backtestHistories).base);
+      const backtestReturns = {
+        dates: backtestAligned.dates,
+        returns: backtestAligned.returns,
+        weights: backtestAligned.tickers.map(ticker => weightsMap[ticker]),
+      };
+      const backtestNote = backtestDataError(backtestReturns.dates.length, backtestWindow) ?? undefined;
+
+      let fxSplit: FxRiskSplit | undefined;
+      if (Object.keys(fxSeries).length > 0) {
+        const localReturns = calculatePortfolioReturns(localHistories, weightsMap);
+        const fxReturns = calculatePortfolioReturns(fxHistories, weightsMap);
+        const interaction = portfolioReturns.map((r, i) => r - localReturns[i] - fxReturns[i]);
+        const [localEs, fxEs, interactionEs] = tailContributions(portfolioReturns, [localReturns, fxReturns, interaction], confidence);
+        fxSplit = {
+          localVarPct: calculateVaRAndES(localReturns, confidence).var * scale,
+          fxVarPct: calculateVaRAndES(fxReturns, confidence).var * scale,
+          localEsContribution: localEs * scale,
+          fxEsContribution: fxEs * scale,
+          interactionEsContribution: interactionEs * scale,
+        };
+      }
 
       setResult({
-        varPct,
-        esPct,
-        varUsd: varPct * portfolioValue,
-        esUsd: esPct * portfolioValue,
+        estimates,
+        decomposition,
+        portfolioValue,
+        baseCurrency,
+        positions: tickerKeys.map(ticker => ({
+          ticker,
+          currency: currencyOf(ticker),
+          assumed: !quoteCurrencies[ticker],
+          fxSymbol: fxSeries[currencyOf(ticker)]?.symbol,
+          weight: weightsMap[ticker],
+        })),
+        fxSplit,
         confidence,
         horizon,
+        failures: allFailures,
+        filled: summarizeFilledBars(finalHistories, filledDates),
+        windowStart: finalHistories[tickerKeys[0]][0].Date,
+        windowEnd: finalHistories[tickerKeys[0]][finalHistories[tickerKeys[0]].length - 1].Date,
+        valueDates: [finalHistories[tickerKeys[0]][0].Date, ...datedReturns.map(r => r.date)],
+        values,
+        returns: portfolioReturns,
+        backtestReturns,
+        backtestWindow,
+        backtestNote,
+        monteCarlo: { paths: mcPaths, seed: mcSeed },
+        volatilityFilter: { model: volatilityModel, lambda: ewmaLambda },
+        assetReturns,
+        returnBasis,
+        weightNote: allFailures.length > 0
+          ? `Weights of the remaining ${tickerKeys.length} position${tickerKeys.length > 1 ? 's' : ''} were rescaled to sum to 1.`
+          : undefined,
       });
 
     } catch (err) {
+      if (isAbortError(err)) return;
       if (err instanceof Error) {
         setError(err.message);
       } else {
         setError('An unknown error occurred.');
       }
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) setLoading(false);
     }
-  }, [tickers, weights, portfolioValue, lookback, horizon, confidence]);
+  }, [tickers, weights, portfolioValue, baseCurrency, lookback, horizon, confidence, alignmentPolicy, maxFillGap, returnBasis, asOf, mcPaths, mcSeed, volatilityModel, ewmaLambda, backtestWindow]);
   
+  const renderFxSplit = (split: FxRiskSplit) => (
+    <div className="mt-6">
+        <h4 className="text-lg font-semibold text-gray-100 mb-3">Currency vs Local Risk</h4>
+        <div className="overflow-x-auto rounded-lg">
+            <table className="min-w-full text-sm">
+                <thead className="bg-gray-700/50 text-gray-300">
+                    <tr>
+                        {['Source', `Standalone VaR (${result!.confidence}%)`, 'Contribution to ES'].map(header => (
+                            <th key={header} className="px-4 py-2 text-left font-medium">{header}</th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700 font-mono">
+                    <tr>
+                        <td className="px-4 py-2 font-sans text-gray-300">Local asset prices</td>
+                        <td className="px-4 py-2 text-red-300">{(split.localVarPct * 100).toFixed(2)}%</td>
+                        <td className="px-4 py-2 text-gray-200">{(split.localEsContribution * 100).toFixed(2)}%</td>
+                    </tr>
+                    <tr>
+                        <td className="px-4 py-2 font-sans text-gray-300">FX rates</td>
+                        <td className="px-4 py-2 text-red-300">{(split.fxVarPct * 100).toFixed(2)}%</td>
+                        <td className="px-4 py-2 text-gray-200">{(split.fxEsContribution * 100).toFixed(2)}%</td>
+                    </tr>
+                    <tr>
+                        <td className="px-4 py-2 font-sans text-gray-300">Interaction</td>
+                        <td className="px-4 py-2 text-gray-500">—</td>
+                        <td className="px-4 py-2 text-gray-200">{(split.interactionEsContribution * 100).toFixed(2)}%</td>
+                    </tr>
+                </tbody>
+            </table>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+            Standalone VaR holds the other leg constant. Contributions average each leg over the portfolio's worst days and add up to the total ES.
+        </p>
+    </div>
+  );
+
+  const renderPositions = (positions: PositionCurrency[]) => (
+    <div className="flex flex-wrap gap-2 mt-4 text-xs">
+        {positions.map(p => (
+            <span key={p.ticker} className="rounded-md bg-gray-900/50 px-2.5 py-1 text-gray-300" title={p.assumed ? 'Currency unknown; assumed to be the base currency' : undefined}>
+                <span className="font-mono text-blue-300">{p.ticker}</span>
+                {isLocalSymbol(p.ticker) && <span className="ml-1 rounded bg-purple-900/60 px-1 text-[10px] uppercase text-purple-300">Imported</span>}
+                {' '}{(p.weight * 100).toFixed(1)}% · {p.currency}{p.assumed && '?'}
+                {p.fxSymbol && <span className="text-gray-500"> via {p.fxSymbol}</span>}
+            </span>
+        ))}
+    </div>
+  );
+
+  const renderMethodComparison = (estimates: MethodEstimate[], formatMoney: (value: number) => string) => {
+    const historical = estimates.find(e => e.method === 'historical')!;
+    return (
+      <div className="mt-6">
+          <h4 className="text-lg font-semibold text-gray-100 mb-3">Method Comparison</h4>
+          <div className="overflow-x-auto rounded-lg">
+              <table className="min-w-full text-sm">
+                  <thead className="bg-gray-700/50 text-gray-300">
+                      <tr>
+                          {['Method', `VaR (${result!.confidence}%)`, 'VaR Amount', 'ES', 'ES Amount', 'ES / VaR', 'VaR vs Historical'].map(header => (
+                              <th key={header} className="px-4 py-2 text-left font-medium">{header}</th>
+                          ))}
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-700 font-mono">
+                      {estimates.map(estimate => (
+                          <tr key={estimate.method} className={estimate.method === method ? 'bg-blue-900/20' : undefined}>
+                              <td className="px-4 py-2 font-sans text-gray-300">
+                                  {VAR_METHOD_OPTIONS.find(opt => opt.value === estimate.method)!.label}
+                                  {estimate.detail && <span className="ml-2 text-xs text-gray-500">{estimate.detail}</span>}
+                              </td>
+                              <td className="px-4 py-2 text-red-300">{(estimate.var * 100).toFixed(2)}%</td>
+                              <td className="px-4 py-2 text-gray-200">{formatMoney(estimate.var * result!.portfolioValue)}</td>
+                              <td className="px-4 py-2 text-red-400">{(estimate.es * 100).toFixed(2)}%</td>
+                              <td className="px-4 py-2 text-gray-200">{formatMoney(estimate.es * result!.portfolioValue)}</td>
+                              <td className="px-4 py-2 text-gray-400">{estimate.var > 0 ? (estimate.es / estimate.var).toFixed(2) : '—'}</td>
+                              <td className="px-4 py-2 text-gray-400">
+                                  {estimate.method === 'historical' || historical.var <= 0
+                                      ? '—'
+                                      : `${estimate.var >= historical.var ? '+' : ''}${((estimate.var / historical.var - 1) * 100).toFixed(1)}%`}
+                              </td>
+                          </tr>
+                      ))}
+                  </tbody>
+              </table>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+              Historical VaR is scaled from one day by the square root of the horizon. Filtered historical simulation rescales each asset's returns from the volatility on their day to today's forecast (the vol multiple compares the two for the portfolio) and builds multi-day horizons by bootstrapping the standardized returns with the volatility updated along each path. The variance-covariance methods use the sample mean and covariance of the daily returns; the Student-t keeps the same volatility with fatter tails fitted to the portfolio. Monte Carlo compounds correlated normal daily returns over the horizon with buy-and-hold positions.
+          </p>
+      </div>
+    );
+  };
+
   const renderResults = () => {
     if (!result) return null;
+    const formatMoney = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: result.baseCurrency });
+    const headline = result.estimates.find(e => e.method === method) ?? result.estimates[0];
+    const headlineLabel = VAR_METHOD_OPTIONS.find(opt => opt.value === headline.method)!.label;
     return (
         <div className="mt-8">
-            <h3 className="text-xl font-semibold text-gray-100 mb-4">Risk Calculation Results</h3>
+            <h3 className="text-xl font-semibold text-gray-100 mb-1">Risk Calculation Results</h3>
+            <p className="text-sm text-gray-400 mb-4">
+                Estimated from daily data {formatWindowDate(result.windowStart)} – {formatWindowDate(result.windowEnd)}.
+            </p>
+            <div className="mb-4">
+                <DataQualityNotice failures={result.failures} filled={result.filled} note={result.weightNote} />
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-white">
                 <div className="bg-gray-900/50 p-5 rounded-lg">
                     <p className="text-sm text-blue-300">Value at Risk ({result.confidence}%)</p>
-                    <p className="text-3xl font-bold text-red-400">{(result.varPct * 100).toFixed(2)}%</p>
-                    <p className="text-lg text-gray-400">~ {result.varUsd.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}</p>
-                    <p className="text-xs text-gray-500 mt-2">Maximum expected loss over {result.horizon} days.</p>
+                    <p className="text-3xl font-bold text-red-400">{(headline.var * 100).toFixed(2)}%</p>
+                    <p className="text-lg text-gray-400">~ {formatMoney(headline.var * result.portfolioValue)}</p>
+                    <p className="text-xs text-gray-500 mt-2">Maximum expected loss over {result.horizon} days ({headlineLabel}).</p>
                 </div>
                 <div className="bg-gray-900/50 p-5 rounded-lg">
                     <p className="text-sm text-blue-300">Expected Shortfall ({result.confidence}%)</p>
-                    <p className="text-3xl font-bold text-red-500">{(result.esPct * 100).toFixed(2)}%</p>
-                    <p className="text-lg text-gray-400">~ {result.esUsd.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}</p>
+                    <p className="text-3xl font-bold text-red-500">{(headline.es * 100).toFixed(2)}%</p>
+                    <p className="text-lg text-gray-400">~ {formatMoney(headline.es * result.portfolioValue)}</p>
                     <p className="text-xs text-gray-500 mt-2">Expected loss when the VaR threshold is breached.</p>
                 </div>
             </div>
+            <div className="mt-6">
+                <RiskContributions
+                    decomposition={result.decomposition}
+                    confidence={result.confidence}
+                    portfolioValue={result.portfolioValue}
+                    formatMoney={formatMoney}
+                />
+            </div>
+            {renderPositions(result.positions)}
+            {renderMethodComparison(result.estimates, formatMoney)}
+            {result.fxSplit && renderFxSplit(result.fxSplit)}
+            <div className="mt-6">
+                {!result.backtestNote ? (
+                    <VaRBacktest
+                        dates={result.backtestReturns.dates}
+                        assetReturns={result.backtestReturns.returns}
+                        weights={result.backtestReturns.weights}
+                        monteCarlo={result.monteCarlo}
+                        volatilityFilter={result.volatilityFilter}
+                        confidence={result.confidence}
+                        window={result.backtestWindow}
+                        method={method}
+                        formatDate={formatWindowDate}
+                    />
+                ) : (
+                    <p className="text-sm text-gray-500">VaR backtest unavailable: {result.backtestNote}</p>
+                )}
+            </div>
+            <div className="mt-6">
+                <StressTesting
+                    positions={result.positions}
+                    baseCurrency={result.baseCurrency}
+                    portfolioValue={result.portfolioValue}
+                    returnBasis={result.returnBasis}
+                    assetReturns={result.assetReturns}
+                />
+            </div>
+            <div className="mt-6">
+                <DrawdownAnalysis
+                    values={result.values}
+                    dates={result.valueDates}
+                    formatDate={formatWindowDate}
+                    unit="days"
+                    title={`Portfolio Drawdowns (${result.baseCurrency})`}
+                />
+            </div>
+            <div className="mt-6">
+                <DistributionDiagnostics returns={result.returns} title="Portfolio Return Distribution" />
+            </div>
         </div>
     );
   };
@@ -221,12 +588,20 @@ const RiskEngineDisplay: React.FC = () => {
                 <InputField label="Weights (comma-separated)" id="weights">
                     <input id="weights" type="text" value={weights} onChange={e => setWeights(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" placeholder="e.g., 0.4,0.3,0.3" />
                 </InputField>
-                <InputField label="Portfolio Value ($)" id="portfolioValue">
+                <InputField label={`Portfolio Value (${baseCurrency})`} id="portfolioValue">
                     <input id="portfolioValue" type="number" value={portfolioValue} onChange={e => setPortfolioValue(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" />
                 </InputField>
+                <InputField label="Base Currency" id="baseCurrency">
+                    <select id="baseCurrency" value={baseCurrency} onChange={e => setBaseCurrency(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5">
+                        {BASE_CURRENCY_OPTIONS.map(code => <option key={code} value={code}>{code}</option>)}
+                    </select>
+                </InputField>
                 <InputField label="Lookback Period (days)" id="lookback">
                     <input id="lookback" type="number" value={lookback} onChange={e => setLookback(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" />
                 </InputField>
+                <InputField label="As of (blank = today)" id="asOf">
+                    <input id="asOf" type="date" value={asOf} max={todayIso()} onChange={e => setAsOf(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" />
+                </InputField>
                 <InputField label="Horizon (days)" id="horizon">
                     <input id="horizon" type="number" value={horizon} onChange={e => setHorizon(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" />
                 </InputField>
@@ -236,6 +611,45 @@ const RiskEngineDisplay: React.FC = () => {
                         <option value={99}>99%</option>
                     </select>
                 </InputField>
+                <InputField label="Return Basis" id="returnBasis">
+                    <select id="returnBasis" value={returnBasis} onChange={e => setReturnBasis(e.target.value as ReturnBasis)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5">
+                        {RETURN_BASIS_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                    </select>
+                </InputField>
+                <InputField label="Date Alignment" id="alignment">
+                    <select id="alignment" value={alignmentPolicy} onChange={e => setAlignmentPolicy(e.target.value as AlignmentPolicy)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5">
+                        {ALIGNMENT_POLICY_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                    </select>
+                </InputField>
+                <InputField label="Headline Method" id="varMethod">
+                    <select id="varMethod" value={method} onChange={e => setMethod(e.target.value as VaRMethod)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5">
+                        {VAR_METHOD_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                    </select>
+                </InputField>
+                <InputField label="Monte Carlo Paths" id="mcPaths">
+                    <input id="mcPaths" type="number" min={1000} max={100000} step={1000} value={mcPaths} onChange={e => setMcPaths(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" />
+                </InputField>
+                <InputField label="Random Seed" id="mcSeed">
+                    <input id="mcSeed" type="number" min={0} value={mcSeed} onChange={e => setMcSeed(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" />
+                </InputField>
+                <InputField label="FHS Volatility" id="volatilityModel">
+                    <select id="volatilityModel" value={volatilityModel} onChange={e => setVolatilityModel(e.target.value as VolatilityModel)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5">
+                        {VOLATILITY_MODEL_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                    </select>
+                </InputField>
+                {volatilityModel === 'ewma' && (
+                    <InputField label="EWMA Lambda" id="ewmaLambda">
+                        <input id="ewmaLambda" type="number" min={0.5} max={0.999} step={0.01} value={ewmaLambda} onChange={e => setEwmaLambda(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" />
+                    </InputField>
+                )}
+                <InputField label="Backtest Window (days)" id="backtestWindow">
+                    <input id="backtestWindow" type="number" min={50} value={backtestWindow} onChange={e => setBacktestWindow(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" />
+                </InputField>
+                {alignmentPolicy === 'forward-fill' && (
+                    <InputField label="Max Fill Gap (bars)" id="maxFillGap">
+                        <input id="maxFillGap" type="number" min={1} value={maxFillGap} onChange={e => setMaxFillGap(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" />
+                    </InputField>
+                )}
             </div>
             <div className="mt-6 text-right">
                 <button
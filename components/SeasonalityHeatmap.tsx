@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { fetchAdjustedHistory } from '../services/stockService';
+import { isAbortError } from '../services/http';
+import { RETURN_BASIS_OPTIONS, ReturnBasis } from '../services/priceAdjustments';
+import { computeSeasonality, MONTH_LABELS, SeasonalityStats, WEEKDAY_LABELS } from '../services/seasonality';
+import { StockData } from '../types';
+import { exportToCsv } from '../utils/csvExporter';
+import LoadingSpinner from './LoadingSpinner';
+import ExportButton from './ExportButton';
+
+interface SeasonalityHeatmapProps {
+  ticker: string;
+}
+
+const PERIOD_OPTIONS = [
+  { value: 'max', label: 'Max' },
+  { value: '20y', label: '20 Years' },
+  { value: '10y', label: '10 Years' },
+  { value: '5y', label: '5 Years' },
+];
+
+// Same shading steps as the Vol Lab correlation matrix, with thresholds scaled to the
+// size of the returns being shown.
+const heatColor = (value: number | null, strong: number, mild: number) => {
+  if (value === null) return 'bg-gray-800 text-gray-600';
+  if (value > strong) return 'bg-green-700/80'; if (value > mild) return 'bg-green-800/60';
+  if (value < -strong) return 'bg-red-700/80'; if (value < -mild) return 'bg-red-800/60';
+  return 'bg-gray-700/50';
+};
+
+const formatPercent = (value: number | null, digits = 1) => (value === null ? '—' : `${(value * 100).toFixed(digits)}%`);
+const round = (value: number | null | undefined) => (value === null || value === undefined ? '' : Number((value * 100).toFixed(4)));
+
+const StatRow: React.FC<{ label: string; stats: (SeasonalityStats | null)[]; pick: (s: SeasonalityStats) => number; color?: boolean; digits?: number }> = ({ label, stats, pick, color = true, digits = 1 }) => (
+  <tr>
+    <th className="px-3 py-2 font-medium text-left sticky left-0 bg-gray-800 whitespace-nowrap">{label}</th>
+    {stats.map((s, i) => {
+      const value = s ? pick(s) : null;
+      return (
+        <td key={i} className={`px-3 py-2 font-mono ${color ? heatColor(value, 0.02, 0.005) : 'text-gray-300'}`}>
+          {color ? formatPercent(value, digits) : value === null ? '—' : `${(value * 100).toFixed(0)}%`}
+        </td>
+      );
+    })}
+  </tr>
+);
+
+const SeasonalityHeatmap: React.FC<SeasonalityHeatmapProps> = ({ ticker }) => {
+  const [period, setPeriod] = useState('max');
+  const [returnBasis, setReturnBasis] = useState<ReturnBasis>('total');
+  const [bars, setBars] = useState<StockData[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+    setBars(null);
+    fetchAdjustedHistory(ticker, period, '1d', { signal: controller.signal })
+      .then(({ data }) => {
+        if ((data as StockData[]).length < 2) throw new Error(`Not enough daily history for ${ticker}.`);
+        setBars(data);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [ticker, period]);
+
+  const seasonality = useMemo(() => (bars ? computeSeasonality(bars, returnBasis) : null), [bars, returnBasis]);
+
+  const handleExport = () => {
+    if (!seasonality) return;
+    const monthColumns = (values: (number | null | undefined)[]) =>
+      MONTH_LABELS.reduce((acc, label, i) => ({ ...acc, [`${label} %`]: round(values[i]) }), {} as { [column: string]: number | string });
+    const statRow = (label: string, pick: (s: SeasonalityStats) => number) =>
+      ({ Year: label, ...monthColumns(seasonality.monthStats.map(s => (s ? pick(s) : null))), 'Year %': '' });
+    exportToCsv([
+      ...seasonality.years.map(row => ({ Year: row.partial ? `${row.year} (partial)` : row.year, ...monthColumns(row.months), 'Year %': round(row.total) })),
+      statRow('Average', s => s.mean),
+      statRow('Median', s => s.median),
+      statRow('Hit Rate', s => s.hitRate),
+    ], `${ticker}_seasonality.csv`);
+  };
+
+  const renderResults = (data: NonNullable<typeof seasonality>) => (
+    <div className="space-y-8">
+      <div>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold text-gray-100">Monthly Returns</h3>
+          <ExportButton onClick={handleExport}>Export to CSV</ExportButton>
+        </div>
+        <div className="overflow-x-auto rounded-lg shadow-md">
+          <table className="min-w-full text-sm text-center">
+            <thead className="bg-gray-700/50">
+              <tr>
+                <th className="px-3 py-2 sticky left-0 bg-gray-700/50"></th>
+                {MONTH_LABELS.map(label => <th key={label} className="px-3 py-2 font-medium">{label}</th>)}
+                <th className="px-3 py-2 font-medium">Year</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {data.years.map(row => (
+                <tr key={row.year}>
+                  <th className="px-3 py-2 font-medium text-left sticky left-0 bg-gray-800">
+                    {row.year}{row.partial && <span className="text-gray-500" title="The history does not cover the whole year">*</span>}
+                  </th>
+                  {row.months.map((value, i) => (
+                    <td key={i} className={`px-3 py-2 font-mono ${heatColor(value, 0.05, 0.01)}`}>{formatPercent(value)}</td>
+                  ))}
+                  <td className={`px-3 py-2 font-mono font-bold ${heatColor(row.total, 0.2, 0.05)}`}>{formatPercent(row.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="border-t-2 border-gray-600">
+              <StatRow label="Average" stats={data.monthStats} pick={s => s.mean} digits={2} />
+              <StatRow label="Median" stats={data.monthStats} pick={s => s.median} digits={2} />
+              <StatRow label="Hit Rate" stats={data.monthStats} pick={s => s.hitRate} color={false} />
+            </tfoot>
+          </table>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">* Partial year. Months run from the previous month's last close to the month's last close.</p>
+      </div>
+
+      <div>
+        <h3 className="text-xl font-semibold text-gray-100 mb-4">Day-of-Week Effects</h3>
+        <div className="overflow-x-auto rounded-lg shadow-md">
+          <table className="min-w-full text-sm text-center">
+            <thead className="bg-gray-700/50">
+              <tr>
+                <th className="px-3 py-2 sticky left-0 bg-gray-700/50"></th>
+                {WEEKDAY_LABELS.map(label => <th key={label} className="px-3 py-2 font-medium">{label}</th>)}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              <StatRow label="Average" stats={data.weekdayStats} pick={s => s.mean} digits={3} />
+              <StatRow label="Median" stats={data.weekdayStats} pick={s => s.median} digits={3} />
+              <StatRow label="Hit Rate" stats={data.weekdayStats} pick={s => s.hitRate} color={false} />
+              <tr>
+                <th className="px-3 py-2 font-medium text-left sticky left-0 bg-gray-800">Days</th>
+                {data.weekdayStats.map((s, i) => <td key={i} className="px-3 py-2 font-mono text-gray-400">{s ? s.count.toLocaleString() : '—'}</td>)}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderContent = () => {
+    if (loading) return <LoadingSpinner />;
+    if (error) return <div className="text-center py-6 px-4 text-red-400 bg-red-900/20 rounded-lg" role="alert"><h3 className="font-semibold">Could Not Load History</h3><p className="mt-1 text-sm text-red-300">{error}</p></div>;
+    if (seasonality) return renderResults(seasonality);
+    return null;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4 p-4 bg-gray-900/30 rounded-lg">
+        <div>
+          <label htmlFor="seasonality-period" className="block mb-1 text-sm font-medium text-gray-300">History</label>
+          <select id="seasonality-period" value={period} onChange={e => setPeriod(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block p-2.5">
+            {PERIOD_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="seasonality-basis" className="block mb-1 text-sm font-medium text-gray-300">Return Basis</label>
+          <select id="seasonality-basis" value={returnBasis} onChange={e => setReturnBasis(e.target.value as ReturnBasis)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block p-2.5">
+            {RETURN_BASIS_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+          </select>
+        </div>
+        {bars && (
+          <p className="text-xs text-gray-500 pb-3">
+            {bars.length.toLocaleString()} daily bars, {bars[0].Date.slice(0, 10)} → {bars[bars.length - 1].Date.slice(0, 10)}
+          </p>
+        )}
+      </div>
+      <div className="min-h-[300px] flex flex-col justify-center">{renderContent()}</div>
+    </div>
+  );
+};
+
+export default SeasonalityHeatmap;
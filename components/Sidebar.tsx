@@ -1,4 +1,6 @@
 import React, { useState } from 'react';
+import DataSourceSettings from './DataSourceSettings';
+import { ProviderConfig } from '../services/marketDataProvider';
 
 const DATA_VIEWS = [
   { key: 'history', label: 'History' },
@@ -14,12 +16,20 @@ const TOOLS_VIEWS = [
   { key: 'swot', label: 'SWOT Analysis' },
   { key: 'var_es_engine', label: 'VaR/ES Engine' },
   { key: 'vol_corr_lab', label: 'Vol & Corr Lab' },
+  { key: 'compare', label: 'Compare' },
+  { key: 'seasonality', label: 'Seasonality' },
+];
+
+const SETTINGS_VIEWS = [
+  { key: 'local_data', label: 'Local Data' },
+  { key: 'cache', label: 'Cache' },
 ];
 
 interface SidebarProps {
   activeView: string;
   onViewChange: (view: string) => void;
   isLoading: boolean;
+  onDataSourceChange: (config: ProviderConfig) => void;
 }
 
 const NavLink: React.FC<{
@@ -80,10 +90,11 @@ const NavSection: React.FC<{
   );
 };
 
-const Sidebar: React.FC<SidebarProps> = ({ activeView, onViewChange, isLoading }) => {
+const Sidebar: React.FC<SidebarProps> = ({ activeView, onViewChange, isLoading, onDataSourceChange }) => {
   const isDataView = DATA_VIEWS.some(v => v.key === activeView);
   const [isDataOpen, setIsDataOpen] = useState(true);
   const [isToolsOpen, setIsToolsOpen] = useState(true);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
   return (
     <aside className="w-56 flex-shrink-0 bg-gray-800 p-4 flex flex-col space-y-6 border-r border-gray-700/60">
@@ -120,9 +131,24 @@ const Sidebar: React.FC<SidebarProps> = ({ activeView, onViewChange, isLoading }
               />
             ))}
           </NavSection>
+
+          <NavSection title="Settings" isOpen={isSettingsOpen} onToggle={() => setIsSettingsOpen(!isSettingsOpen)}>
+            {SETTINGS_VIEWS.map(({ key, label }) => (
+              <NavLink
+                key={key}
+                viewKey={key}
+                label={label}
+                isActive={activeView === key}
+                onClick={onViewChange}
+                disabled={false}
+              />
+            ))}
+          </NavSection>
         </div>
       </nav>
 
+      <DataSourceSettings onChange={onDataSourceChange} />
+
       <footer className="text-center text-gray-500 text-xs">
         <p>Not for financial advice.</p>
       </footer>
@@ -1,69 +1,333 @@
-
-import React from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { StockData } from '../types';
+import { basisClose, ReturnBasis } from '../services/priceAdjustments';
+import { formatBarTime, isIntradayInterval, parseBarTime, sessionFlag, TimeZoneMode } from '../services/marketSessions';
+import { IndicatorOutput } from '../services/indicators';
 import { exportToCsv } from '../utils/csvExporter';
 import ExportButton from './ExportButton';
 
 interface StockDataTableProps {
   data: StockData[];
   ticker: string;
+  // Highlights the adjusted close column that analytics use.
+  basis?: ReturnBasis;
+  interval?: string;
+  // Intraday timestamps are shown in the exchange's zone or the user's own.
+  timeZoneMode?: TimeZoneMode;
+  exchangeTimeZone?: string;
+  // Indicator series (aligned oldest first) added as extra columns to the table and CSV.
+  indicators?: IndicatorOutput[];
+}
+
+// One table row: the bar plus derived and indicator values.
+interface TableRow {
+  bar: StockData;
+  time: number;
+  // Percent change of the basis close against the previous bar; null for the first bar.
+  change: number | null;
+  // High-low range as a percent of the close.
+  range: number | null;
+  indicators: { [key: string]: number | null };
+}
+
+interface Column {
+  key: string;
+  label: string;
+  // Value used for sorting, filtering and export.
+  value: (row: TableRow) => number | null;
+  render: (row: TableRow) => React.ReactNode;
+  className?: (row: TableRow) => string;
+  // Filterable columns are offered in the value-filter builder.
+  filterable?: boolean;
+}
+
+type SortDirection = 'asc' | 'desc';
+type FilterOperator = '>' | '<';
+
+interface ValueFilter {
+  id: number;
+  column: string;
+  operator: FilterOperator;
+  value: number;
 }
 
-const StockDataTable: React.FC<StockDataTableProps> = ({ data, ticker }) => {
-  const formatNumber = (num: number) => num.toFixed(2);
-  const formatVolume = (vol: number) => vol.toLocaleString();
-  const formatDate = (dateString: string) => {
-    try {
-        return new Date(dateString).toLocaleDateString('en-US', {
-            year: 'numeric',
-            month: 'short',
-            day: 'numeric',
-        });
-    } catch (e) {
-        return dateString;
-    }
+const SESSION_BADGES = {
+  pre: { label: 'Pre', className: 'bg-indigo-900/60 text-indigo-300' },
+  post: { label: 'Post', className: 'bg-amber-900/60 text-amber-300' },
+};
+
+// Rows have a fixed height so only the ones in view (plus overscan) need to be rendered.
+const ROW_HEIGHT = 44;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN = 8;
+
+const formatNumber = (num: number) => num.toFixed(2);
+const formatAdjusted = (num: number | undefined) => (typeof num === 'number' ? `$${num.toFixed(2)}` : 'N/A');
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(2)}%`);
+const formatIndicator = (value: number | null) => {
+  if (value === null) return '—';
+  return Math.abs(value) >= 1e5 ? Math.round(value).toLocaleString() : value.toFixed(2);
+};
+
+// Nulls sort last in either direction.
+const compareValues = (a: number | null, b: number | null, direction: SortDirection) => {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  return direction === 'asc' ? a - b : b - a;
+};
+
+const StockDataTable: React.FC<StockDataTableProps> = ({
+  data,
+  ticker,
+  basis = 'price' as ReturnBasis,
+  interval = '1d',
+  timeZoneMode = 'exchange' as TimeZoneMode,
+  exchangeTimeZone,
+  indicators = [],
+}) => {
+  const [sort, setSort] = useState<{ key: string; direction: SortDirection }>({ key: 'Date', direction: 'desc' });
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [filters, setFilters] = useState<ValueFilter[]>([]);
+  const [draftFilter, setDraftFilter] = useState<{ column: string; operator: FilterOperator; value: string }>({ column: 'Volume', operator: '>', value: '' });
+  const [scrollTop, setScrollTop] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const hasAdjusted = data.some(item => typeof item.TotalReturnClose === 'number');
+  const intraday = isIntradayInterval(interval);
+  const indicatorSeries = useMemo(() => indicators.flatMap(ind => ind.series), [indicators]);
+  const formatDate = (dateString: string) => formatBarTime(dateString, interval, timeZoneMode, exchangeTimeZone);
+  const renderSession = (dateString: string) => {
+    if (!intraday) return null;
+    const flag = sessionFlag(dateString, exchangeTimeZone);
+    if (flag === 'regular') return null;
+    const badge = SESSION_BADGES[flag];
+    return <span className={`ml-2 px-1.5 py-0.5 rounded text-[10px] uppercase ${badge.className}`}>{badge.label}</span>;
   };
 
+  // `data` is newest first, so the previous bar is the next element; indicator series run
+  // oldest first.
+  const rows = useMemo<TableRow[]>(() => data.map((bar, index) => {
+    const prev = data[index + 1];
+    const close = basisClose(bar, basis);
+    const prevClose = prev ? basisClose(prev, basis) : 0;
+    const row: TableRow = {
+      bar,
+      time: parseBarTime(bar.Date).getTime(),
+      change: prevClose > 0 ? (close / prevClose - 1) * 100 : null,
+      range: bar.Close > 0 ? ((bar.High - bar.Low) / bar.Close) * 100 : null,
+      indicators: {},
+    };
+    indicatorSeries.forEach(series => { row.indicators[series.key] = series.values[data.length - 1 - index] ?? null; });
+    return row;
+  }), [data, basis, indicatorSeries]);
+
+  const changeClass = (value: number | null) =>
+    value === null || value === 0 ? 'text-gray-400' : value > 0 ? 'text-green-400' : 'text-red-400';
+  const adjustedClass = (active: boolean) => (active ? 'text-blue-200 font-semibold' : 'text-gray-400');
+
+  // Sorting and filtering read values through these columns, so they are rebuilt whenever an
+  // indicator or the basis changes, even if the number of columns stays the same.
+  const columns = useMemo<Column[]>(() => [
+    {
+      key: 'Date', label: 'Date', value: row => row.time,
+      render: row => <>{formatDate(row.bar.Date)}{renderSession(row.bar.Date)}</>,
+      className: () => 'font-medium text-gray-200',
+    },
+    { key: 'Open', label: 'Open', value: row => row.bar.Open, render: row => `$${formatNumber(row.bar.Open)}`, filterable: true },
+    { key: 'High', label: 'High', value: row => row.bar.High, render: row => `$${formatNumber(row.bar.High)}`, className: () => 'text-green-400', filterable: true },
+    { key: 'Low', label: 'Low', value: row => row.bar.Low, render: row => `$${formatNumber(row.bar.Low)}`, className: () => 'text-red-400', filterable: true },
+    { key: 'Close', label: 'Close', value: row => row.bar.Close, render: row => `$${formatNumber(row.bar.Close)}`, filterable: true },
+    ...(hasAdjusted ? [
+      {
+        key: 'PriceReturnClose', label: 'Split-Adj Close', value: (row: TableRow) => row.bar.PriceReturnClose ?? null,
+        render: (row: TableRow) => formatAdjusted(row.bar.PriceReturnClose), className: () => adjustedClass(basis === 'price'),
+      },
+      {
+        key: 'TotalReturnClose', label: 'Total Return Close', value: (row: TableRow) => row.bar.TotalReturnClose ?? null,
+        render: (row: TableRow) => formatAdjusted(row.bar.TotalReturnClose), className: () => adjustedClass(basis === 'total'),
+      },
+    ] : []),
+    {
+      key: 'Change', label: 'Change %', value: row => row.change, render: row => formatPercent(row.change),
+      className: row => `font-mono ${changeClass(row.change)}`, filterable: true,
+    },
+    { key: 'Range', label: 'Range %', value: row => row.range, render: row => (row.range === null ? '—' : `${row.range.toFixed(2)}%`), className: () => 'font-mono text-gray-400', filterable: true },
+    { key: 'Volume', label: 'Volume', value: row => row.bar.Volume, render: row => row.bar.Volume.toLocaleString(), className: () => 'text-gray-400', filterable: true },
+    ...indicatorSeries.map(series => ({
+      key: series.key, label: series.key, value: (row: TableRow) => row.indicators[series.key],
+      render: (row: TableRow) => formatIndicator(row.indicators[series.key]), className: () => 'text-amber-200/90 font-mono', filterable: true,
+    })),
+  ], [indicators, indicatorSeries, basis, hasAdjusted, interval, timeZoneMode, exchangeTimeZone]);
+  const activeAdjustedKey = basis === 'total' ? 'TotalReturnClose' : 'PriceReturnClose';
+  const filterableColumns = columns.filter(column => column.filterable);
+  const columnByKey = (key: string) => columns.find(column => column.key === key);
+
+  const view = useMemo(() => {
+    const filtered = rows.filter(row => {
+      // Both ends are inclusive calendar days as written in the bar's timestamp.
+      const day = row.bar.Date.slice(0, 10);
+      if ((dateFrom && day < dateFrom) || (dateTo && day > dateTo)) return false;
+      return filters.every(filter => {
+        // Filters on indicator columns that have since been removed no longer apply.
+        const column = columnByKey(filter.column);
+        if (!column) return true;
+        const value = column.value(row);
+        if (value === null || value === undefined) return false;
+        return filter.operator === '>' ? value > filter.value : value < filter.value;
+      });
+    });
+    const sortColumn = columnByKey(sort.key);
+    return sortColumn ? filtered.sort((a, b) => compareValues(sortColumn.value(a), sortColumn.value(b), sort.direction)) : filtered;
+  }, [rows, dateFrom, dateTo, filters, sort, columns]);
+
+  const resetScroll = () => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setScrollTop(0);
+  };
+
+  const handleSort = (key: string) => {
+    setSort(prev => (prev.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'Date' ? 'desc' : 'asc' }));
+    resetScroll();
+  };
+
+  const handleAddFilter = () => {
+    const value = Number(draftFilter.value);
+    if (draftFilter.value.trim() === '' || !Number.isFinite(value)) return;
+    setFilters(prev => [...prev, { id: Date.now(), column: draftFilter.column, operator: draftFilter.operator, value }]);
+    setDraftFilter(prev => ({ ...prev, value: '' }));
+    resetScroll();
+  };
+
+  const describeFilter = (filter: ValueFilter) => {
+    const column = columnByKey(filter.column);
+    const unit = filter.column === 'Change' || filter.column === 'Range' ? '%' : '';
+    return `${column?.label ?? filter.column} ${filter.operator} ${filter.value.toLocaleString()}${unit}`;
+  };
+
+  // Exports exactly what is listed: the filtered rows in the current order, including derived
+  // and indicator columns.
   const handleExport = () => {
-    exportToCsv(data, `${ticker}_history.csv`);
+    const exported = view.map(row => {
+      const out: { [column: string]: unknown } = { ...row.bar, 'Change %': row.change, 'Range %': row.range };
+      indicatorSeries.forEach(series => { out[series.key] = row.indicators[series.key]; });
+      return out;
+    });
+    exportToCsv(exported, `${ticker}_history.csv`);
   };
 
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastVisible = Math.min(view.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = view.slice(firstVisible, lastVisible);
+  const filtersActive = dateFrom !== '' || dateTo !== '' || filters.length > 0;
+
   return (
     <div>
-        <div className="flex justify-end mb-4">
-            <ExportButton onClick={handleExport}>Export to CSV</ExportButton>
+        <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-4 mb-4 space-y-3">
+            <div className="flex flex-wrap items-end gap-3">
+                <div>
+                    <label htmlFor="table-date-from" className="block mb-1 text-xs text-gray-400">From</label>
+                    <input id="table-date-from" type="date" value={dateFrom} onChange={e => { setDateFrom(e.target.value); resetScroll(); }} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-2" />
+                </div>
+                <div>
+                    <label htmlFor="table-date-to" className="block mb-1 text-xs text-gray-400">To</label>
+                    <input id="table-date-to" type="date" value={dateTo} onChange={e => { setDateTo(e.target.value); resetScroll(); }} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-2" />
+                </div>
+                <div className="flex items-end gap-2">
+                    <div>
+                        <label htmlFor="table-filter-column" className="block mb-1 text-xs text-gray-400">Value filter</label>
+                        <select
+                            id="table-filter-column"
+                            value={draftFilter.column}
+                            onChange={e => setDraftFilter(prev => ({ ...prev, column: e.target.value }))}
+                            className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-2"
+                        >
+                            {filterableColumns.map(column => <option key={column.key} value={column.key}>{column.label}</option>)}
+                        </select>
+                    </div>
+                    <select
+                        aria-label="Comparison"
+                        value={draftFilter.operator}
+                        onChange={e => setDraftFilter(prev => ({ ...prev, operator: e.target.value as FilterOperator }))}
+                        className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-2"
+                    >
+                        <option value=">">&gt;</option>
+                        <option value="<">&lt;</option>
+                    </select>
+                    <input
+                        aria-label="Filter value"
+                        type="number"
+                        value={draftFilter.value}
+                        placeholder={draftFilter.column === 'Change' ? 'e.g. -5' : ''}
+                        onChange={e => setDraftFilter(prev => ({ ...prev, value: e.target.value }))}
+                        onKeyDown={e => { if (e.key === 'Enter') handleAddFilter(); }}
+                        className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-2 w-28"
+                    />
+                    <button onClick={handleAddFilter} className="rounded-md bg-blue-600 hover:bg-blue-700 px-3 py-2 text-sm font-medium text-white">Add</button>
+                </div>
+                <div className="ml-auto">
+                    <ExportButton onClick={handleExport}>Export to CSV</ExportButton>
+                </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-gray-400">
+                    Showing {view.length.toLocaleString()} of {rows.length.toLocaleString()} rows
+                    {filtersActive && ' · export includes only these rows'}
+                </span>
+                {filters.map(filter => (
+                    <span key={filter.id} className="inline-flex items-center gap-1 rounded-full bg-gray-700 px-3 py-1 font-mono text-gray-200">
+                        {describeFilter(filter)}
+                        <button onClick={() => setFilters(prev => prev.filter(f => f.id !== filter.id))} className="text-gray-400 hover:text-red-300" aria-label={`Remove filter ${describeFilter(filter)}`}>×</button>
+                    </span>
+                ))}
+                {filtersActive && (
+                    <button onClick={() => { setDateFrom(''); setDateTo(''); setFilters([]); resetScroll(); }} className="text-blue-400 hover:text-blue-300 font-semibold">Clear filters</button>
+                )}
+            </div>
         </div>
-        <div className="overflow-x-auto shadow-2xl rounded-lg">
+        <div
+            ref={scrollRef}
+            onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+            className="overflow-auto shadow-2xl rounded-lg"
+            style={{ maxHeight: VIEWPORT_HEIGHT }}
+        >
         <table className="min-w-full divide-y divide-gray-700 bg-gray-800">
-            <thead className="bg-gray-700/50">
+            <thead className="bg-gray-700 sticky top-0 z-10">
             <tr>
-                {['Date', 'Open', 'High', 'Low', 'Close', 'Volume'].map((header) => (
+                {columns.map(column => (
                 <th
-                    key={header}
+                    key={column.key}
                     scope="col"
-                    className="px-6 py-4 text-left text-xs font-medium text-gray-300 uppercase tracking-wider"
+                    aria-sort={sort.key === column.key ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+                    className={`px-6 py-4 text-left text-xs font-medium uppercase tracking-wider whitespace-nowrap ${column.key === activeAdjustedKey ? 'text-blue-300' : 'text-gray-300'}`}
                 >
-                    {header}
+                    <button onClick={() => handleSort(column.key)} className="uppercase tracking-wider hover:text-white">
+                        {column.label}
+                        <span className="ml-1 text-gray-500">{sort.key === column.key ? (sort.direction === 'asc' ? '▲' : '▼') : ''}</span>
+                    </button>
                 </th>
                 ))}
             </tr>
             </thead>
             <tbody className="divide-y divide-gray-700">
-            {data.map((item, index) => (
-                <tr key={index} className="hover:bg-gray-700/60 transition-colors duration-200">
-                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-200">{formatDate(item.Date)}</td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">${formatNumber(item.Open)}</td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-green-400">${formatNumber(item.High)}</td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-red-400">${formatNumber(item.Low)}</td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">${formatNumber(item.Close)}</td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-400">{formatVolume(item.Volume)}</td>
+            {firstVisible > 0 && <tr style={{ height: firstVisible * ROW_HEIGHT }} aria-hidden="true" />}
+            {visibleRows.map(row => (
+                <tr key={row.bar.Date} style={{ height: ROW_HEIGHT }} className="hover:bg-gray-700/60 transition-colors duration-200">
+                {columns.map(column => (
+                    <td key={column.key} className={`px-6 whitespace-nowrap text-sm ${column.className ? column.className(row) : 'text-gray-300'}`}>
+                        {column.render(row)}
+                    </td>
+                ))}
                 </tr>
             ))}
+            {lastVisible < view.length && <tr style={{ height: (view.length - lastVisible) * ROW_HEIGHT }} aria-hidden="true" />}
             </tbody>
         </table>
+        {view.length === 0 && <p className="text-center text-gray-400 py-6">No rows match the current filters.</p>}
         </div>
     </div>
   );
 };
 
-export default StockDataTable;
\ No newline at end of file
+export default StockDataTable;
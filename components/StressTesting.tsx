@@ -0,0 +1,438 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchAdjustedHistory } from '../services/stockService';
+import { isAbortError, mapWithConcurrency } from '../services/http';
+import { fetchFxSeries, fetchQuoteCurrencies, FxSeries, ratesForBars } from '../services/fxConversion';
+import { basisClose, ReturnBasis } from '../services/priceAdjustments';
+import {
+  applyHypotheticalScenario,
+  BUILT_IN_SCENARIOS,
+  CloseSeries,
+  deleteScenario,
+  estimateBeta,
+  formatTickerShocks,
+  HistoricalScenario,
+  listSavedScenarios,
+  MoveSource,
+  parseTickerShocks,
+  replayHistoricalScenario,
+  saveScenario,
+  StressResult,
+  StressScenario,
+} from '../services/stressTesting';
+import { StockData } from '../types';
+import { addDays, DateRange, isIsoDate, todayIso } from '../utils/dateRange';
+import LoadingSpinner from './LoadingSpinner';
+
+interface StressTestingProps {
+  positions: { ticker: string; weight: number; currency: string }[];
+  baseCurrency: string;
+  portfolioValue: number;
+  returnBasis: ReturnBasis;
+  // Aligned daily base-currency returns per position over the lookback, for the betas.
+  assetReturns: { tickers: string[]; dates: string[]; returns: number[][] };
+}
+
+interface ScenarioOutcome {
+  scenario: StressScenario;
+  result?: StressResult;
+  error?: string;
+}
+
+const SOURCE_LABELS: { [source in MoveSource]: string } = {
+  history: 'Window prices',
+  shock: 'Direct shock',
+  beta: 'Beta × benchmark',
+  unshocked: 'Unshocked',
+  missing: 'No data',
+};
+
+const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5';
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`);
+const pnlColor = (value: number | null) => (value === null ? 'text-gray-500' : value < 0 ? 'text-red-400' : 'text-green-400');
+
+const describeScenario = (scenario: StressScenario) =>
+  scenario.kind === 'historical'
+    ? `${scenario.start} → ${scenario.end}`
+    : [
+        scenario.benchmarkShock !== null ? `benchmark ${formatPercent(scenario.benchmarkShock)}` : null,
+        Object.keys(scenario.tickerShocks).length > 0 ? formatTickerShocks(scenario.tickerShocks) : null,
+      ].filter(Boolean).join('; ');
+
+const InputField: React.FC<{ label: string; id: string; children: React.ReactNode }> = ({ label, id, children }) => (
+  <div>
+    <label htmlFor={id} className="block mb-1 text-sm font-medium text-gray-300">{label}</label>
+    {children}
+  </div>
+);
+
+const StressTesting: React.FC<StressTestingProps> = ({ positions, baseCurrency, portfolioValue, returnBasis, assetReturns }) => {
+  const [benchmark, setBenchmark] = useState('SPY');
+  const [saved, setSaved] = useState<StressScenario[]>(() => listSavedScenarios());
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => BUILT_IN_SCENARIOS.map(s => s.id));
+  const [draftName, setDraftName] = useState('');
+  const [draftKind, setDraftKind] = useState<StressScenario['kind']>('hypothetical');
+  const [draftStart, setDraftStart] = useState('');
+  const [draftEnd, setDraftEnd] = useState('');
+  const [draftBenchmarkShock, setDraftBenchmarkShock] = useState('-20');
+  const [draftTickerShocks, setDraftTickerShocks] = useState('');
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+
+  const [outcomes, setOutcomes] = useState<ScenarioOutcome[] | null>(null);
+  const [betas, setBetas] = useState<{ [ticker: string]: number | null } | null>(null);
+  const [betaNote, setBetaNote] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // A new Risk Engine run invalidates the results.
+  useEffect(() => {
+    abortRef.current?.abort();
+    setOutcomes(null);
+    setBetas(null);
+    setBetaNote(null);
+    setLoading(false);
+  }, [positions, assetReturns]);
+
+  const scenarios = [...BUILT_IN_SCENARIOS, ...saved];
+  const money = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: baseCurrency, maximumFractionDigits: 0 });
+
+  const toggleScenario = (id: string) =>
+    setSelectedIds(ids => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]));
+
+  const handleSave = () => {
+    setDraftError(null);
+    try {
+      const name = draftName.trim();
+      if (!name) throw new Error('Give the scenario a name.');
+      if (BUILT_IN_SCENARIOS.some(s => s.name === name)) throw new Error('That name is used by a built-in scenario.');
+      // Saving under an existing name replaces that scenario, so it keeps its id.
+      const id = saved.find(s => s.name === name)?.id ?? `custom-${Date.now()}`;
+      let scenario: StressScenario;
+      if (draftKind === 'historical') {
+        if (!isIsoDate(draftStart) || !isIsoDate(draftEnd) || draftStart > draftEnd) throw new Error('Choose a valid date range: the start must be on or before the end.');
+        if (draftEnd > todayIso()) throw new Error('The window cannot end in the future.');
+        scenario = { id, name, kind: 'historical', start: draftStart, end: draftEnd };
+      } else {
+        const benchmarkShock = draftBenchmarkShock.trim() === '' ? null : Number(draftBenchmarkShock) / 100;
+        if (benchmarkShock !== null && !isFinite(benchmarkShock)) throw new Error('The benchmark shock must be a number (percent).');
+        const tickerShocks = parseTickerShocks(draftTickerShocks);
+        if (benchmarkShock === null && Object.keys(tickerShocks).length === 0) throw new Error('Enter a benchmark shock, ticker shocks, or both.');
+        scenario = { id, name, kind: 'hypothetical', benchmarkShock, tickerShocks };
+      }
+      const next = saveScenario(scenario);
+      setSaved(next);
+      // Drop selections whose scenario no longer exists (e.g. replaced from another tab).
+      const known = new Set([...BUILT_IN_SCENARIOS, ...next].map(s => s.id));
+      setSelectedIds(ids => [...ids.filter(i => i !== id && known.has(i)), id]);
+      setDraftName('');
+    } catch (err) {
+      setDraftError(err instanceof Error ? err.message : 'The scenario could not be saved.');
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    setLibraryError(null);
+    try {
+      setSaved(deleteScenario(id));
+      setSelectedIds(ids => ids.filter(i => i !== id));
+    } catch (err) {
+      setLibraryError(err instanceof Error ? err.message : 'The scenario could not be deleted.');
+    }
+  };
+
+  const handleRun = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setError(null);
+    setOutcomes(null);
+    setLoading(true);
+
+    try {
+      // --- 1. Input Validation ---
+      const chosen = [...BUILT_IN_SCENARIOS, ...saved].filter(s => selectedIds.includes(s.id));
+      if (chosen.length === 0) throw new Error('Select at least one scenario.');
+      const benchmarkSymbol = benchmark.trim().toUpperCase();
+      if (!benchmarkSymbol) throw new Error('Enter a benchmark ticker for the betas.');
+      const toCloses = (bars: StockData[]): CloseSeries => bars.map(bar => ({ Date: bar.Date, Close: basisClose(bar, returnBasis) }));
+
+      // Positions and the benchmark are restated in the base currency, like the lookback returns.
+      // Rates are fetched once per currency and date range.
+      const benchmarkCurrency = (await fetchQuoteCurrencies([benchmarkSymbol], controller.signal))[benchmarkSymbol] ?? baseCurrency;
+      const fxCache = new Map<string, Promise<FxSeries>>();
+      const inBaseCurrency = async (series: CloseSeries, currency: string, range: DateRange): Promise<CloseSeries> => {
+        if (currency === baseCurrency) return series;
+        const key = `${currency}:${range.start}:${range.end}`;
+        if (!fxCache.has(key)) fxCache.set(key, fetchFxSeries(currency, baseCurrency, range, controller.signal));
+        const rates = ratesForBars(series, await fxCache.get(key)!);
+        return series.map((bar, i) => ({ Date: bar.Date, Close: bar.Close * rates[i] }));
+      };
+
+      // --- 2. Betas over the lookback ---
+      const { dates } = assetReturns;
+      let betaMap: { [ticker: string]: number | null } = {};
+      let note: string | null = null;
+      try {
+        const lookback = { start: addDays(dates[0].slice(0, 10), -7), end: dates[dates.length - 1].slice(0, 10) };
+        const { data } = await fetchAdjustedHistory(benchmarkSymbol, 'max', '1d', { signal: controller.signal, ...lookback });
+        const closes = await inBaseCurrency(toCloses(data), benchmarkCurrency, lookback);
+        const benchmarkReturns = new Map(closes.slice(1).map((bar, i) => [bar.Date.slice(0, 10), closes[i].Close > 0 ? bar.Close / closes[i].Close - 1 : 0]));
+        const common = dates.map((date, t) => ({ t, r: benchmarkReturns.get(date.slice(0, 10)) })).filter((d): d is { t: number; r: number } => d.r !== undefined);
+        assetReturns.tickers.forEach((ticker, i) => {
+          betaMap[ticker] = estimateBeta(common.map(d => assetReturns.returns[i][d.t]), common.map(d => d.r));
+        });
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        betaMap = {};
+        note = `Betas unavailable: ${err instanceof Error ? err.message : `could not load ${benchmarkSymbol}`}`;
+      }
+
+      // --- 3. Scenarios ---
+      // A window that cannot be loaded or converted is left out (positions fall back to their betas).
+      const fetchWindow = async (ticker: string, currency: string, scenario: HistoricalScenario): Promise<CloseSeries | null> => {
+        try {
+          const { data } = await fetchAdjustedHistory(ticker, 'max', '1d', {
+            signal: controller.signal,
+            start: addDays(scenario.start, -7),
+            end: scenario.end,
+          });
+          return await inBaseCurrency(toCloses(data), currency, { start: scenario.start, end: scenario.end });
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          return null;
+        }
+      };
+      const results: ScenarioOutcome[] = [];
+      for (const scenario of chosen) {
+        if (scenario.kind === 'hypothetical') {
+          results.push({ scenario, result: applyHypotheticalScenario(scenario, positions, betaMap) });
+          continue;
+        }
+        try {
+          // Positions are fetched one by one rather than aligned, so a ticker listed after the
+          // window starts does not cut the others short; it falls back to its beta instead.
+          const windowCloses: { [ticker: string]: CloseSeries } = {};
+          await mapWithConcurrency(positions, 4, async ({ ticker, currency }) => {
+            const series = await fetchWindow(ticker, currency, scenario);
+            if (series) windowCloses[ticker] = series;
+          });
+          const benchmarkCloses = await fetchWindow(benchmarkSymbol, benchmarkCurrency, scenario);
+          results.push({ scenario, result: replayHistoricalScenario(scenario, positions, windowCloses, benchmarkCloses, betaMap) });
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          results.push({ scenario, error: err instanceof Error ? err.message : 'The scenario could not be run.' });
+        }
+      }
+
+      setBetas(betaMap);
+      setBetaNote(note);
+      setOutcomes(results);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      if (!controller.signal.aborted) setLoading(false);
+    }
+  }, [benchmark, saved, selectedIds, positions, baseCurrency, returnBasis, assetReturns]);
+
+  const renderResults = (list: ScenarioOutcome[]) => {
+    const completed = list.filter((o): o is ScenarioOutcome & { result: StressResult } => !!o.result);
+    return (
+      <div className="space-y-6">
+        <div className="overflow-x-auto rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-700/50 text-gray-300">
+              <tr>
+                {['Scenario', `Benchmark (${benchmark.toUpperCase()})`, 'P&L', `P&L (${baseCurrency})`, 'Worst Day', 'Notes'].map(header => (
+                  <th key={header} className="px-4 py-2 text-left font-medium whitespace-nowrap">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {list.map(({ scenario, result, error: scenarioError }) => {
+                const proxied = result?.positions.filter(p => p.source === 'beta').map(p => p.ticker) ?? [];
+                const missing = result?.positions.filter(p => p.source === 'missing').map(p => p.ticker) ?? [];
+                return (
+                  <tr key={scenario.id}>
+                    <td className="px-4 py-2 text-gray-200">
+                      {scenario.name}
+                      <div className="text-xs text-gray-500">{describeScenario(scenario)}</div>
+                    </td>
+                    {result ? (
+                      <>
+                        <td className={`px-4 py-2 font-mono ${pnlColor(result.benchmarkMove)}`}>{formatPercent(result.benchmarkMove)}</td>
+                        <td className={`px-4 py-2 font-mono font-bold ${pnlColor(result.pnlPct)}`}>{formatPercent(result.pnlPct)}</td>
+                        <td className={`px-4 py-2 font-mono ${pnlColor(result.pnlPct)}`}>{money(result.pnlPct * portfolioValue)}</td>
+                        <td className="px-4 py-2 font-mono text-gray-300 whitespace-nowrap">
+                          {result.worstDay ? <><span className={pnlColor(result.worstDay.pct)}>{formatPercent(result.worstDay.pct)}</span> <span className="text-gray-500 text-xs">{result.worstDay.date}</span></> : '—'}
+                        </td>
+                        <td className="px-4 py-2 text-xs text-gray-400">
+                          {proxied.length > 0 && <div>Beta proxy: {proxied.join(', ')}</div>}
+                          {missing.length > 0 && <div className="text-yellow-300">Excluded (no data or beta): {missing.join(', ')}</div>}
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={5} className="px-4 py-2 text-sm text-red-300">{scenarioError}</td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {completed.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold text-gray-300 mb-2">Contribution by Position</h4>
+            <div className="overflow-x-auto rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-700/50 text-gray-300">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium">Ticker</th>
+                    <th className="px-4 py-2 text-left font-medium">Weight</th>
+                    <th className="px-4 py-2 text-left font-medium">Beta</th>
+                    {completed.map(({ scenario }) => <th key={scenario.id} className="px-4 py-2 text-left font-medium whitespace-nowrap">{scenario.name}</th>)}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700 font-mono">
+                  {positions.map((position, i) => (
+                    <tr key={position.ticker}>
+                      <td className="px-4 py-2 text-blue-300">{position.ticker}</td>
+                      <td className="px-4 py-2 text-gray-300">{(position.weight * 100).toFixed(1)}%</td>
+                      <td className="px-4 py-2 text-gray-300">{betas?.[position.ticker] != null ? betas[position.ticker]!.toFixed(2) : '—'}</td>
+                      {completed.map(({ scenario, result }) => {
+                        const p = result.positions[i];
+                        return (
+                          <td
+                            key={scenario.id}
+                            className={`px-4 py-2 ${pnlColor(p.source === 'missing' ? null : p.contribution)}`}
+                            title={`${SOURCE_LABELS[p.source]}; position move ${formatPercent(p.move)}`}
+                          >
+                            {p.source === 'missing' ? '—' : formatPercent(p.contribution)}
+                            {p.source === 'beta' && <span className="text-gray-500">*</span>}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Contributions are in percent of portfolio value and add up to the scenario P&amp;L. Historical windows hold today's weights from the last close before the window without rebalancing, in {baseCurrency} on the {returnBasis === 'total' ? 'total return' : 'price'} basis. * Moved with the benchmark times its beta (no prices for the window). Hover a cell for the position's own move.
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-4 shadow-md">
+      <div className="border-b border-gray-700 pb-2 mb-3">
+        <h3 className="text-lg font-bold text-blue-300">Stress Testing</h3>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-300 mb-2">Scenarios</h4>
+          <ul className="space-y-1">
+            {scenarios.map(scenario => {
+              const builtIn = BUILT_IN_SCENARIOS.includes(scenario);
+              return (
+                <li key={scenario.id} className="flex items-start gap-2 text-sm">
+                  <input
+                    id={`scenario-${scenario.id}`}
+                    type="checkbox"
+                    checked={selectedIds.includes(scenario.id)}
+                    onChange={() => toggleScenario(scenario.id)}
+                    className="mt-1 rounded bg-gray-700 border-gray-600"
+                  />
+                  <label htmlFor={`scenario-${scenario.id}`} className="flex-1 text-gray-200">
+                    {scenario.name}
+                    <span className="ml-2 text-xs text-gray-500">{scenario.kind === 'historical' ? 'Historical' : 'Hypothetical'} · {describeScenario(scenario)}</span>
+                  </label>
+                  {!builtIn && (
+                    <button onClick={() => handleDelete(scenario.id)} className="text-xs text-gray-400 hover:text-red-300" aria-label={`Delete ${scenario.name}`}>Delete</button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          {libraryError && <p className="mt-2 text-sm text-red-300">{libraryError}</p>}
+          <div className="flex items-end gap-3 mt-4">
+            <div className="w-32">
+              <InputField label="Benchmark" id="stressBenchmark">
+                <input id="stressBenchmark" type="text" value={benchmark} onChange={e => setBenchmark(e.target.value)} className={inputClass} />
+              </InputField>
+            </div>
+            <button
+              onClick={handleRun}
+              disabled={loading}
+              className="text-white bg-blue-600 hover:bg-blue-700 focus:ring-4 focus:outline-none focus:ring-blue-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:opacity-50 disabled:cursor-wait"
+            >
+              {loading ? 'Running...' : 'Run Stress Tests'}
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 bg-gray-900/30 rounded-lg">
+          <h4 className="text-sm font-semibold text-gray-300 mb-3">New Scenario</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <InputField label="Name" id="draftName">
+              <input id="draftName" type="text" value={draftName} onChange={e => setDraftName(e.target.value)} className={inputClass} placeholder="e.g., Tech sell-off" />
+            </InputField>
+            <InputField label="Type" id="draftKind">
+              <select id="draftKind" value={draftKind} onChange={e => setDraftKind(e.target.value as StressScenario['kind'])} className={inputClass}>
+                <option value="hypothetical">Hypothetical shock</option>
+                <option value="historical">Historical window</option>
+              </select>
+            </InputField>
+            {draftKind === 'historical' ? (
+              <>
+                <InputField label="Start" id="draftStart">
+                  <input id="draftStart" type="date" value={draftStart} max={todayIso()} onChange={e => setDraftStart(e.target.value)} className={inputClass} />
+                </InputField>
+                <InputField label="End" id="draftEnd">
+                  <input id="draftEnd" type="date" value={draftEnd} max={todayIso()} onChange={e => setDraftEnd(e.target.value)} className={inputClass} />
+                </InputField>
+              </>
+            ) : (
+              <>
+                <InputField label="Benchmark Shock (%)" id="draftBenchmarkShock">
+                  <input id="draftBenchmarkShock" type="number" value={draftBenchmarkShock} onChange={e => setDraftBenchmarkShock(e.target.value)} className={inputClass} placeholder="blank = none" />
+                </InputField>
+                <InputField label="Ticker Shocks (%)" id="draftTickerShocks">
+                  <input id="draftTickerShocks" type="text" value={draftTickerShocks} onChange={e => setDraftTickerShocks(e.target.value)} className={inputClass} placeholder="e.g., AAPL:-30, MSFT:-10" />
+                </InputField>
+              </>
+            )}
+          </div>
+          {draftError && <p className="mt-2 text-sm text-red-300">{draftError}</p>}
+          <div className="mt-3 text-right">
+            <button onClick={handleSave} className="rounded-md bg-gray-600/50 hover:bg-gray-600 px-4 py-2 text-sm font-medium text-gray-200">Save Scenario</button>
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-6">
+        {loading && <LoadingSpinner />}
+        {error && (
+          <div className="text-center py-6 px-4 text-red-400 bg-red-900/20 rounded-lg" role="alert">
+            <h3 className="font-semibold">Stress Test Error</h3>
+            <p className="mt-1 text-sm text-red-300">{error}</p>
+          </div>
+        )}
+        {betaNote && !loading && <p className="mb-3 text-sm text-yellow-300">{betaNote}</p>}
+        {outcomes && !loading && renderResults(outcomes)}
+      </div>
+    </div>
+  );
+};
+
+export default StressTesting;
@@ -1,6 +1,7 @@
 import React, { useState, useCallback } from 'react';
 import { GoogleGenAI, Type } from "@google/genai";
 import { fetchStockData } from '../services/stockService';
+import { CompanyProfile, NewsArticle } from '../types';
 
 interface ToolsDisplayProps {
   ticker: string;
@@ -13,7 +14,7 @@ interface SWOTAnalysis {
     threats: string[];
 }
 
-const SWOTCard: React.FC<{ title: string; items: string[]; icon: JSX.Element; className: string }> = ({ title, items, icon, className }) => (
+const SWOTCard: React.FC<{ title: string; items: string[]; icon: React.ReactNode; className: string }> = ({ title, items, icon, className }) => (
     <div className={`bg-gray-900/50 rounded-lg p-4 shadow-md flex flex-col ${className}`}>
         <div className="flex items-center mb-3 border-b border-gray-700 pb-2">
             {icon}
@@ -47,14 +48,14 @@ const ToolsDisplay: React.FC<ToolsDisplayProps> = ({ ticker }) => {
                 fetchStockData(ticker, 'news')
             ]);
 
-            const companyInfo = infoRes.data;
-            const newsArticles = newsRes.data.news || [];
+            const companyInfo: CompanyProfile = infoRes.data;
+            const newsArticles: NewsArticle[] = newsRes.data.news;
             
             const summary = companyInfo.longBusinessSummary || 'No business summary available.';
-            const recentNewsTitles = newsArticles.slice(0, 10).map((article: any) => article.content.title).join('\n - ');
+            const recentNewsTitles = newsArticles.slice(0, 10).map(article => article.content.title).join('\n - ');
 
             const prompt = `
-                Analyze the following company, ${companyInfo.longName} (${ticker}), based on its business summary and recent news headlines. 
+                Analyze the following company, ${companyInfo.longName || ticker} (${ticker}), based on its business summary and recent news headlines. 
                 Provide a SWOT analysis (Strengths, Weaknesses, Opportunities, Threats).
                 For each category, provide 3-5 concise bullet points.
 
@@ -0,0 +1,241 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BaselZone, MethodBacktest, runVaRBacktest } from '../services/varBacktest';
+import { TestResult } from '../services/returnDiagnostics';
+import { MonteCarloOptions, VAR_METHOD_OPTIONS, VaRMethod } from '../services/riskModels';
+import { VolatilityFilterOptions } from '../services/volatilityModels';
+import { isAbortError } from '../services/http';
+
+interface VaRBacktestProps {
+  // Aligned daily base-currency returns per asset, the date of each return, and the weights.
+  dates: string[];
+  assetReturns: number[][];
+  weights: number[];
+  monteCarlo: MonteCarloOptions;
+  volatilityFilter: VolatilityFilterOptions;
+  confidence: number;
+  // Estimation window in days.
+  window: number;
+  // The Risk Engine's headline method, backtested unless all methods are requested.
+  method: VaRMethod;
+  formatDate: (date: string) => string;
+}
+
+const SIGNIFICANCE = 0.05;
+
+const ZONE_STYLES: { [zone in BaselZone]: string } = {
+  green: 'bg-green-900/60 text-green-300',
+  yellow: 'bg-yellow-900/60 text-yellow-300',
+  red: 'bg-red-900/60 text-red-300',
+};
+
+const methodLabel = (method: VaRMethod) => VAR_METHOD_OPTIONS.find(opt => opt.value === method)!.label;
+
+const TestCell: React.FC<{ test: TestResult }> = ({ test }) => (
+  <td className={`px-4 py-2 ${test.pValue < SIGNIFICANCE ? 'text-red-300' : 'text-gray-200'}`} title={`LR ${test.statistic.toFixed(2)}, ${test.df} df`}>
+    {test.pValue < 0.0001 ? '< 0.0001' : test.pValue.toFixed(4)}
+  </td>
+);
+
+const BacktestChart: React.FC<{ backtest: MethodBacktest; formatDate: (date: string) => string }> = ({ backtest, formatDate }) => {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const { points } = backtest;
+  const width = 800, height = 240, margin = { top: 10, right: 20, bottom: 28, left: 56 };
+  const plotWidth = width - margin.left - margin.right;
+  const low = Math.min(...points.map(p => Math.min(p.realized, -p.var)));
+  const high = Math.max(...points.map(p => p.realized), 0.0001);
+  const slot = plotWidth / points.length;
+  const xScale = (i: number) => margin.left + (i + 0.5) * slot;
+  const yScale = (v: number) => margin.top + ((high - v) / (high - low)) * (height - margin.top - margin.bottom);
+  const yTicks = Array.from({ length: 5 }, (_, i) => low + ((high - low) * i) / 4);
+  const xTicks = Array.from(new Set(Array.from({ length: 5 }, (_, i) => Math.round(((points.length - 1) * i) / 4))));
+  const varLine = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${xScale(i)},${yScale(-p.var)}`).join(' ');
+  const barWidth = Math.max(1, slot * 0.7);
+
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) * width) / rect.width;
+    const i = Math.floor((x - margin.left) / slot);
+    setHoverIndex(i >= 0 && i < points.length ? i : null);
+  };
+  const readout = points[hoverIndex ?? points.length - 1];
+
+  return (
+    <div>
+      <p className="text-xs font-mono text-gray-400 text-right mb-1">
+        {formatDate(readout.date)} · P&amp;L <span className={readout.realized >= 0 ? 'text-green-400' : 'text-red-400'}>{(readout.realized * 100).toFixed(2)}%</span>
+        {' '}· VaR <span className="text-orange-300">{(readout.var * 100).toFixed(2)}%</span>
+        {readout.exception && <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] uppercase bg-red-900/60 text-red-300">Exception</span>}
+      </p>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full h-auto select-none"
+        aria-label="Daily P&L against the VaR forecast"
+        onMouseMove={handleMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        <g className="text-gray-400 text-xs">
+          {yTicks.map(tick => (
+            <g key={tick} transform={`translate(0, ${yScale(tick)})`}>
+              <line x1={margin.left} x2={width - margin.right} stroke="currentColor" strokeWidth="0.5" strokeDasharray="2,2" />
+              <text x={margin.left - 8} y="3" textAnchor="end" fill="currentColor">{(tick * 100).toFixed(1)}%</text>
+            </g>
+          ))}
+          {xTicks.map(i => (
+            <text key={i} x={xScale(i)} y={height - 8} textAnchor="middle" fill="currentColor">{formatDate(points[i].date)}</text>
+          ))}
+        </g>
+        <line x1={margin.left} x2={width - margin.right} y1={yScale(0)} y2={yScale(0)} stroke="#6b7280" strokeWidth="0.75" />
+        {points.map((p, i) => (
+          <rect
+            key={i}
+            x={xScale(i) - barWidth / 2}
+            y={Math.min(yScale(p.realized), yScale(0))}
+            width={barWidth}
+            height={Math.max(0.5, Math.abs(yScale(p.realized) - yScale(0)))}
+            fill={p.exception ? '#ef4444' : p.realized >= 0 ? '#4ade80' : '#9ca3af'}
+            fillOpacity={p.exception ? 1 : 0.5}
+          />
+        ))}
+        <path d={varLine} fill="none" stroke="#fdba74" strokeWidth="1.5" />
+        {points.map((p, i) => p.exception && <circle key={i} cx={xScale(i)} cy={yScale(p.realized)} r="3" fill="#ef4444" stroke="#fecaca" strokeWidth="0.75" />)}
+        {hoverIndex !== null && (
+          <line x1={xScale(hoverIndex)} x2={xScale(hoverIndex)} y1={margin.top} y2={height - margin.bottom} stroke="#9ca3af" strokeWidth="0.75" strokeDasharray="3,3" />
+        )}
+      </svg>
+      <div className="flex justify-center gap-4 text-xs mt-1 text-gray-400">
+        <span className="flex items-center"><span className="w-3 h-0.5 mr-1.5 bg-orange-300"></span>−VaR forecast</span>
+        <span className="flex items-center"><span className="w-2 h-2 mr-1.5 rounded-full bg-red-500"></span>Exception</span>
+      </div>
+    </div>
+  );
+};
+
+const VaRBacktest: React.FC<VaRBacktestProps> = ({ dates, assetReturns, weights, monteCarlo, volatilityFilter, confidence, window, method, formatDate }) => {
+  const [allMethods, setAllMethods] = useState(false);
+  const [backtests, setBacktests] = useState<MethodBacktest[] | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [chartMethod, setChartMethod] = useState<VaRMethod>(method);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // A new Risk Engine run invalidates the backtest.
+  useEffect(() => {
+    abortRef.current?.abort();
+    setBacktests(null);
+    setProgress(null);
+    setError(null);
+  }, [dates, assetReturns]);
+
+  const handleRun = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setBacktests(null);
+    setProgress(0);
+    const methods = allMethods ? VAR_METHOD_OPTIONS.map(opt => opt.value) : [method];
+    // A run that was cancelled or replaced must not touch the state of the current one.
+    const superseded = () => controller.signal.aborted || abortRef.current !== controller;
+    try {
+      const results = await runVaRBacktest(dates, assetReturns, weights, confidence, window, monteCarlo, volatilityFilter, methods, {
+        signal: controller.signal,
+        onProgress: fraction => { if (!superseded()) setProgress(fraction); },
+      });
+      if (superseded()) return;
+      setChartMethod(method);
+      setBacktests(results);
+    } catch (err) {
+      if (isAbortError(err) || superseded()) return;
+      setError(err instanceof Error ? err.message : 'The backtest could not be run.');
+    } finally {
+      if (!superseded()) setProgress(null);
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    setProgress(null);
+  };
+
+  const running = progress !== null;
+  const charted = backtests ? backtests.find(b => b.method === chartMethod) ?? backtests[0] : null;
+  const days = dates.length - window;
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-4 shadow-md">
+      <div className="flex flex-wrap justify-between items-center gap-3 border-b border-gray-700 pb-2 mb-3">
+        <h3 className="text-lg font-bold text-blue-300">VaR Backtest</h3>
+        <span className="text-xs text-gray-400">
+          1-day {confidence}% VaR re-estimated daily from the previous {window} days · {days} out-of-sample days
+        </span>
+      </div>
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={allMethods} onChange={e => setAllMethods(e.target.checked)} disabled={running} className="rounded bg-gray-700 border-gray-600" />
+          All methods (slower)
+        </label>
+        {running ? (
+          <>
+            <div className="flex-1 min-w-[8rem] max-w-xs h-2 rounded bg-gray-700 overflow-hidden" role="progressbar" aria-valuenow={Math.round(progress! * 100)} aria-valuemin={0} aria-valuemax={100}>
+              <div className="h-full bg-blue-500" style={{ width: `${progress! * 100}%` }}></div>
+            </div>
+            <span className="text-xs font-mono text-gray-400">{Math.round(progress! * 100)}%</span>
+            <button onClick={handleCancel} className="text-xs text-gray-400 hover:text-red-300 font-semibold">Cancel</button>
+          </>
+        ) : (
+          <button
+            onClick={handleRun}
+            className="text-white bg-blue-600 hover:bg-blue-700 focus:ring-4 focus:outline-none focus:ring-blue-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center"
+          >
+            {backtests ? 'Re-run Backtest' : 'Run Backtest'}
+          </button>
+        )}
+        {!allMethods && !running && <span className="text-xs text-gray-500">Backtests {methodLabel(method)} only.</span>}
+      </div>
+      {error && <p className="mb-3 text-sm text-red-300">{error}</p>}
+      {backtests && charted && (
+        <>
+          <div className="overflow-x-auto rounded-lg mb-4">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-700/50 text-gray-300">
+                <tr>
+                  {['Method', 'Exceptions', 'Expected', 'Kupiec POF p', 'Independence p', 'Cond. Coverage p', 'Basel Zone'].map(header => (
+                    <th key={header} className="px-4 py-2 text-left font-medium whitespace-nowrap">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700 font-mono">
+                {backtests.map(b => (
+                  <tr
+                    key={b.method}
+                    onClick={() => setChartMethod(b.method)}
+                    className={`cursor-pointer hover:bg-gray-700/40 ${b.method === charted.method ? 'bg-blue-900/20' : ''}`}
+                  >
+                    <td className="px-4 py-2 font-sans text-gray-300">{methodLabel(b.method)}</td>
+                    <td className="px-4 py-2 text-gray-200">{b.exceptions} <span className="text-gray-500">({((b.exceptions / b.points.length) * 100).toFixed(1)}%)</span></td>
+                    <td className="px-4 py-2 text-gray-400">{b.expected.toFixed(1)}</td>
+                    <TestCell test={b.kupiec} />
+                    <TestCell test={b.independence} />
+                    <TestCell test={b.conditionalCoverage} />
+                    <td className="px-4 py-2">
+                      <span className={`px-2 py-0.5 rounded text-xs font-sans uppercase ${ZONE_STYLES[b.zone]}`}>{b.zone}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500 mb-4">
+            p-values below {SIGNIFICANCE * 100}% (red) reject the model: Kupiec checks the number of exceptions, independence checks whether they cluster on consecutive days, and conditional coverage combines both. Basel zones come from the binomial probability of the exception count.{backtests.length > 1 && ' Click a method to chart it.'}
+          </p>
+          <h4 className="text-sm font-semibold text-gray-300 mb-2">Daily P&amp;L vs VaR · {methodLabel(charted.method)}</h4>
+          <BacktestChart backtest={charted} formatDate={formatDate} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VaRBacktest;
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { ValidationWarning } from '../types';
+
+interface ValidationWarningsProps {
+  warnings: ValidationWarning[];
+}
+
+const ValidationWarnings: React.FC<ValidationWarningsProps> = ({ warnings }) => {
+  const [isExpanded, setExpanded] = useState(false);
+
+  if (warnings.length === 0) return null;
+
+  const total = warnings.reduce((sum, w) => sum + w.count, 0);
+
+  return (
+    <div className="mb-4 rounded-lg border border-yellow-600/40 bg-yellow-900/20 px-4 py-3 text-sm" role="status">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-yellow-300">
+          The data source returned {total} malformed value{total > 1 ? 's' : ''}. They were skipped or repaired; the view may be incomplete.
+        </p>
+        <button
+          onClick={() => setExpanded(!isExpanded)}
+          className="text-xs font-semibold text-yellow-400 hover:text-yellow-300 whitespace-nowrap"
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? 'Hide Details' : 'Show Details'}
+        </button>
+      </div>
+      {isExpanded && (
+        <ul className="mt-3 space-y-1 font-mono text-xs text-yellow-200/80">
+          {warnings.map(w => (
+            <li key={`${w.field}|${w.message}`}>
+              <span className="text-yellow-400">{w.field}</span>: {w.message}
+              {w.count > 1 && <span className="text-yellow-500/80"> (×{w.count})</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ValidationWarnings;
@@ -1,6 +1,19 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { fetchMultipleStockHistories } from '../services/stockService';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { fetchExchangeTimeZone, fetchMultipleStockHistories, HistoryFetchFailure } from '../services/stockService';
+import { isAbortError, mapWithConcurrency } from '../services/http';
+import {
+  ALIGNMENT_POLICY_OPTIONS,
+  AlignmentPolicy,
+  alignmentKey,
+  FilledBarsSummary,
+  summarizeFilledBars,
+} from '../services/historyAlignment';
+import { basisClose, RETURN_BASIS_OPTIONS, ReturnBasis } from '../services/priceAdjustments';
+import { StockData } from '../types';
+import { isIsoDate, lookbackRange, todayIso } from '../utils/dateRange';
+import { barsPerYear, intradayLookbackRange, isIntradayInterval } from '../services/marketSessions';
 import LoadingSpinner from './LoadingSpinner';
+import DataQualityNotice from './DataQualityNotice';
 
 // --- TYPE DEFINITIONS ---
 interface VolatilityPoint {
@@ -18,16 +31,20 @@ interface LabResults {
   correlationMatrix: { [tickerA: string]: { [tickerB: string]: number } };
   regimes: RegimePoint[];
   tickers: string[];
+  failures: HistoryFetchFailure[];
+  filled: FilledBarsSummary[];
 }
 
-// --- CALCULATION HELPERS ---
+const INTERVAL_OPTIONS = [
+  { value: '1d', label: 'Daily' },
+  { value: '1h', label: 'Hourly' },
+  { value: '30m', label: '30 Minutes' },
+  { value: '15m', label: '15 Minutes' },
+  { value: '5m', label: '5 Minutes' },
+  { value: '1m', label: '1 Minute' },
+];
 
-const getPeriodForLookback = (days: number): string => {
-    if (days <= 22) return '1mo'; if (days <= 66) return '3mo';
-    if (days <= 130) return '6mo'; if (days <= 260) return '1y';
-    if (days <= 510) return '2y'; if (days <= 1270) return '5y';
-    if (days <= 2530) return '10y'; return 'max';
-};
+// --- CALCULATION HELPERS ---
 
 const calculateReturns = (prices: number[]): number[] => {
   const returns: number[] = [];
@@ -37,6 +54,12 @@ const calculateReturns = (prices: number[]): number[] => {
   return returns;
 };
 
+// Log returns keyed by the bar that closes each return (its calendar day for daily bars).
+const returnsByDate = (history: StockData[], basis: ReturnBasis, interval: string): Map<string, number> => {
+  const returns = calculateReturns(history.map(d => basisClose(d, basis)));
+  return new Map(returns.map((r, i) => [alignmentKey(history[i + 1].Date, interval), r]));
+};
+
 const stdDev = (arr: number[]): number => {
   const n = arr.length;
   if (n < 2) return 0;
@@ -116,11 +139,12 @@ const VolatilityChart: React.FC<{ data: LabResults['volatilities']; tickers: str
     const width = 600, height = 300, margin = { top: 20, right: 20, bottom: 40, left: 50 };
     const yMax = useMemo(() => Math.max(...tickers.flatMap(t => data[t].map(p => p.volatility))), [data, tickers]);
 
-    const xScale = (index: number) => margin.left + (index / (data[tickers[0]].length - 1)) * (width - margin.left - margin.right);
+    // Series can differ in length when histories are not forward-filled, so each is scaled on its own.
+    const xScale = (index: number, length: number) => margin.left + (index / (length - 1)) * (width - margin.left - margin.right);
     const yScale = (val: number) => height - margin.bottom - (val / yMax) * (height - margin.top - margin.bottom);
     
     const paths = tickers.map(ticker => {
-        return data[ticker].map((p, i) => `${i === 0 ? 'M' : 'L'}${xScale(i)},${yScale(p.volatility)}`).join(' ');
+        return data[ticker].map((p, i) => `${i === 0 ? 'M' : 'L'}${xScale(i, data[ticker].length)},${yScale(p.volatility)}`).join(' ');
     });
 
     const yAxisTicks = Array.from({ length: 5 }, (_, i) => yMax * (i / 4));
@@ -187,21 +211,42 @@ const VolatilityLab: React.FC = () => {
     const [lookback, setLookback] = useState(252);
     const [windowSize, setWindowSize] = useState(21);
     const [model, setModel] = useState<'realized' | 'garch-lite'>('realized');
+    const [alignmentPolicy, setAlignmentPolicy] = useState<AlignmentPolicy>('forward-fill');
+    const [maxFillGap, setMaxFillGap] = useState(5);
+    const [returnBasis, setReturnBasis] = useState<ReturnBasis>('total');
+    const [asOf, setAsOf] = useState('');
+    const [barInterval, setBarInterval] = useState('1d');
+    const intraday = isIntradayInterval(barInterval);
 
     const [result, setResult] = useState<LabResults | null>(null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
 
     const handleCalculate = useCallback(async () => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
         setError(null); setResult(null); setLoading(true);
 
         try {
             const tickerArr = tickers.split(',').map(t => t.trim().toUpperCase()).filter(Boolean);
             if (tickerArr.length === 0) throw new Error('Please enter at least one ticker.');
             if (lookback <= windowSize) throw new Error('Lookback period must be greater than the rolling window size.');
+            if (asOf && (!isIsoDate(asOf) || asOf > todayIso())) throw new Error('The "as of" date must be a valid date that is not in the future.');
+            if (asOf && intraday) throw new Error('Intraday bars are only available for recent history; clear the "as of" date.');
             
-            const period = getPeriodForLookback(lookback);
-            const rawHistories = await fetchMultipleStockHistories(tickerArr, period, '1d');
+            // Intraday lookbacks are counted in bars, so fetch as much recent history as the interval allows.
+            const { start, end } = intraday ? intradayLookbackRange(barInterval) : lookbackRange(lookback, asOf || undefined);
+            const { histories: rawHistories, failures, filledDates } = await fetchMultipleStockHistories(tickerArr, 'max', barInterval, {
+                start,
+                end,
+                signal: controller.signal,
+                alignment: { policy: alignmentPolicy, maxFillGap },
+                adjust: true,
+            });
             if (Object.keys(rawHistories).length === 0) throw new Error('Could not fetch data for any tickers.');
 
             const hist = tickerArr.reduce((acc, t) => {
@@ -209,21 +254,26 @@ const VolatilityLab: React.FC = () => {
                     acc[t] = rawHistories[t].slice(-lookback);
                 }
                 return acc;
-            }, {} as {[key: string]: any[]});
+            }, {} as {[key: string]: StockData[]});
 
             const availableTickers = Object.keys(hist);
-            if (availableTickers.length === 0) throw new Error(`Not enough historical data for the requested lookback period of ${lookback} days.`);
+            if (availableTickers.length === 0) throw new Error(`Not enough historical data for the requested lookback period of ${lookback} bars.`);
             
             const returns: { [key: string]: number[] } = {};
             availableTickers.forEach(t => {
-                returns[t] = calculateReturns(hist[t].map(d => d.Close));
+                returns[t] = calculateReturns(hist[t].map(d => basisClose(d, returnBasis)));
             });
 
             // --- Calculations ---
             const volatilities: LabResults['volatilities'] = {};
-            const annualizationFactor = Math.sqrt(252);
-
-            availableTickers.forEach(t => {
+            // Regular-session bars per year for the chosen interval (252 for daily bars). Intraday
+            // session lengths depend on each ticker's exchange.
+            const timeZones = intraday
+                ? await mapWithConcurrency(availableTickers, 4, t => fetchExchangeTimeZone(t, controller.signal))
+                : [];
+
+            availableTickers.forEach((t, k) => {
+                const annualizationFactor = Math.sqrt(barsPerYear(barInterval, timeZones[k]));
                 const volSeries: VolatilityPoint[] = [];
                 const assetReturns = returns[t];
                 
@@ -246,11 +296,17 @@ const VolatilityLab: React.FC = () => {
 
             const correlationMatrix: LabResults['correlationMatrix'] = {};
             if (availableTickers.length > 1) {
+                // Correlate on the most recent window of dates where both tickers have a return.
+                const datedReturns: { [key: string]: Map<string, number> } = {};
+                availableTickers.forEach(t => { datedReturns[t] = returnsByDate(hist[t], returnBasis, barInterval); });
                 availableTickers.forEach(t1 => {
                     correlationMatrix[t1] = {};
                     availableTickers.forEach(t2 => {
-                        const recentReturns1 = returns[t1].slice(-windowSize);
-                        const recentReturns2 = returns[t2].slice(-windowSize);
+                        const commonDates = Array.from(datedReturns[t1].keys())
+                            .filter(d => datedReturns[t2].has(d))
+                            .slice(-windowSize);
+                        const recentReturns1 = commonDates.map(d => datedReturns[t1].get(d)!);
+                        const recentReturns2 = commonDates.map(d => datedReturns[t2].get(d)!);
                         correlationMatrix[t1][t2] = t1 === t2 ? 1.0 : correlation(recentReturns1, recentReturns2);
                     });
                 });
@@ -265,19 +321,32 @@ const VolatilityLab: React.FC = () => {
                 regime: p.volatility > highVolThreshold ? 'High' : p.volatility < lowVolThreshold ? 'Low' : 'Normal',
             }));
 
-            setResult({ volatilities, correlationMatrix, regimes, tickers: availableTickers });
+            const excluded = tickerArr
+                .filter(t => rawHistories[t] && !hist[t])
+                .map(t => ({ ticker: t, reason: `only ${rawHistories[t].length} bars available, fewer than the ${lookback}-bar lookback.` }));
+
+            setResult({
+                volatilities,
+                correlationMatrix,
+                regimes,
+                tickers: availableTickers,
+                failures: [...failures, ...excluded],
+                filled: summarizeFilledBars(hist, filledDates),
+            });
 
         } catch (err) {
+            if (isAbortError(err)) return;
             setError(err instanceof Error ? err.message : 'An unknown error occurred.');
         } finally {
-            setLoading(false);
+            if (!controller.signal.aborted) setLoading(false);
         }
-    }, [tickers, lookback, windowSize, model]);
+    }, [tickers, lookback, windowSize, model, alignmentPolicy, maxFillGap, returnBasis, asOf, barInterval, intraday]);
     
     const renderResults = () => {
         if (!result) return null;
         return (
             <div className="mt-8 space-y-8">
+                <DataQualityNotice failures={result.failures} filled={result.filled} />
                 {result.tickers.length > 1 && <CorrelationMatrix matrix={result.correlationMatrix} tickers={result.tickers} />}
                 <VolatilityChart data={result.volatilities} tickers={result.tickers} />
                 <RegimeTimeline regimes={result.regimes} primaryTicker={result.tickers[0]} />
@@ -298,14 +367,33 @@ const VolatilityLab: React.FC = () => {
                 <h3 className="text-lg font-semibold text-gray-200 mb-4 border-b border-gray-700 pb-2">Configuration</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                     <InputField label="Tickers (comma-separated)" id="tickers"><input id="tickers" type="text" value={tickers} onChange={e => setTickers(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" placeholder="e.g., SPY,QQQ,TLT" /></InputField>
-                    <InputField label="Lookback Period (days)" id="lookback"><input id="lookback" type="number" value={lookback} onChange={e => setLookback(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" /></InputField>
-                    <InputField label="Rolling Window (days)" id="window"><input id="window" type="number" value={windowSize} onChange={e => setWindowSize(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" /></InputField>
+                    <InputField label="Bar Interval" id="barInterval">
+                        <select id="barInterval" value={barInterval} onChange={e => setBarInterval(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5">
+                            {INTERVAL_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                        </select>
+                    </InputField>
+                    <InputField label={intraday ? 'Lookback Period (bars)' : 'Lookback Period (days)'} id="lookback"><input id="lookback" type="number" value={lookback} onChange={e => setLookback(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" /></InputField>
+                    <InputField label="As of (blank = today)" id="asOf"><input id="asOf" type="date" value={asOf} max={todayIso()} onChange={e => setAsOf(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" /></InputField>
+                    <InputField label={intraday ? 'Rolling Window (bars)' : 'Rolling Window (days)'} id="window"><input id="window" type="number" value={windowSize} onChange={e => setWindowSize(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" /></InputField>
                     <InputField label="Volatility Model" id="model">
                         <select id="model" value={model} onChange={e => setModel(e.target.value as any)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5">
                             <option value="realized">Realized Volatility</option>
                             <option value="garch-lite">GARCH-Lite (EWMA)</option>
                         </select>
                     </InputField>
+                    <InputField label="Return Basis" id="returnBasis">
+                        <select id="returnBasis" value={returnBasis} onChange={e => setReturnBasis(e.target.value as ReturnBasis)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5">
+                            {RETURN_BASIS_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                        </select>
+                    </InputField>
+                    <InputField label="Date Alignment" id="alignment">
+                        <select id="alignment" value={alignmentPolicy} onChange={e => setAlignmentPolicy(e.target.value as AlignmentPolicy)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5">
+                            {ALIGNMENT_POLICY_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                        </select>
+                    </InputField>
+                    {alignmentPolicy === 'forward-fill' && (
+                        <InputField label="Max Fill Gap (bars)" id="maxFillGap"><input id="maxFillGap" type="number" min={1} value={maxFillGap} onChange={e => setMaxFillGap(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2.5" /></InputField>
+                    )}
                 </div>
                 <div className="mt-6 text-right">
                     <button onClick={handleCalculate} disabled={loading} className="text-white bg-blue-600 hover:bg-blue-700 focus:ring-4 focus:outline-none focus:ring-blue-800 font-medium rounded-lg text-sm px-5 py-2.5 text-center disabled:opacity-50 disabled:cursor-wait">
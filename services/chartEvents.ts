@@ -0,0 +1,93 @@
+// Dividends, splits and headlines placed on the bars of an ascending price history.
+
+import { CorporateActions, NewsArticle, StockData } from '../types';
+import { parseBarTime } from './marketSessions';
+
+export type ChartEventKind = 'dividend' | 'split' | 'news';
+
+export const CHART_EVENT_KINDS: { kind: ChartEventKind; label: string }[] = [
+  { kind: 'dividend', label: 'Dividends' },
+  { kind: 'split', label: 'Splits' },
+  { kind: 'news', label: 'News' },
+];
+
+export interface ChartEvent {
+  kind: ChartEventKind;
+  // Bar the event is drawn on.
+  index: number;
+  // Event date as reported by the source.
+  date: string;
+  // One-line description, e.g. "Dividend 0.24 (0.13% of prior close)".
+  summary: string;
+  // Article link for news.
+  url?: string;
+}
+
+const toTime = (date: string) => parseBarTime(date).getTime();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Same rule as the price adjustments: an action takes effect on the first bar on or after
+// its date, so the marker sits on the bar whose adjusted close it changes. Actions more than
+// a day before the first bar predate the history.
+const firstBarOnOrAfter = (times: number[], time: number) => {
+  const index = times.findIndex(t => t >= time);
+  return index === 0 && times[0] - time >= DAY_MS ? -1 : index;
+};
+
+// Headlines belong to the bar that was trading (or last traded) when they were published.
+// Anything after the last bar by more than one bar's spacing is outside the history.
+const barAtOrBefore = (times: number[], time: number) => {
+  const n = times.length;
+  if (n === 0 || time < times[0]) return -1;
+  const spacing = n > 1 ? times[n - 1] - times[n - 2] : 0;
+  if (time >= times[n - 1] + spacing) return -1;
+  let index = 0;
+  while (index + 1 < n && times[index + 1] <= time) index++;
+  return index;
+};
+
+// Split ratios as "new:old" shares, e.g. 4 -> "4:1", 1.5 -> "3:2", 0.1 -> "1:10".
+export const formatSplitRatio = (ratio: number): string => {
+  for (let d = 1; d <= 20; d++) {
+    const n = ratio * d;
+    if (Math.abs(n - Math.round(n)) < 1e-6 && Math.round(n) > 0) return `${Math.round(n)}:${d}`;
+  }
+  return ratio >= 1 ? `${ratio.toFixed(2)}:1` : `1:${(1 / ratio).toFixed(2)}`;
+};
+
+export const buildChartEvents = (bars: StockData[], actions: CorporateActions, news: NewsArticle[]): ChartEvent[] => {
+  if (bars.length === 0) return [];
+  const times = bars.map(bar => toTime(bar.Date));
+  const events: ChartEvent[] = [];
+
+  Object.entries(actions.dividends).forEach(([date, amount]) => {
+    const index = firstBarOnOrAfter(times, toTime(date));
+    if (index < 0) return;
+    const previousClose = index > 0 ? bars[index - 1].Close : null;
+    const share = previousClose ? ` (${((amount / previousClose) * 100).toFixed(2)}% of prior close)` : '';
+    events.push({ kind: 'dividend', index, date, summary: `Dividend ${Number(amount.toFixed(4))}${share}` });
+  });
+
+  Object.entries(actions.splits).forEach(([date, ratio]) => {
+    const index = firstBarOnOrAfter(times, toTime(date));
+    if (index < 0 || ratio <= 0) return;
+    events.push({ kind: 'split', index, date, summary: `Split ${formatSplitRatio(ratio)}` });
+  });
+
+  news.forEach(article => {
+    const { title, pubDate, provider, canonicalUrl } = article.content;
+    if (!pubDate) return;
+    const index = barAtOrBefore(times, toTime(pubDate));
+    if (index < 0) return;
+    events.push({
+      kind: 'news',
+      index,
+      date: pubDate,
+      summary: provider?.displayName ? `${title} (${provider.displayName})` : title,
+      ...(canonicalUrl?.url ? { url: canonicalUrl.url } : {}),
+    });
+  });
+
+  return events.sort((a, b) => a.index - b.index);
+};
@@ -0,0 +1,97 @@
+// Currency handling for multi-currency portfolios: each position's quote currency comes from
+// its profile and daily FX rates from Yahoo-style `XXXYYY=X` histories, so local prices can be
+// restated in a common base currency.
+
+import { StockData } from '../types';
+import { fetchStockData } from './stockService';
+import { isAbortError, mapWithConcurrency } from './http';
+import { addDays, DateRange } from '../utils/dateRange';
+
+export const BASE_CURRENCY_OPTIONS = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'HKD'];
+
+// Quotes in minor units (e.g. LSE prices in pence) convert through their major currency.
+// The scale does not change returns, so only the code is normalized.
+const MINOR_UNIT_CURRENCIES: { [code: string]: string } = {
+  GBp: 'GBP',
+  GBX: 'GBP',
+  ZAc: 'ZAR',
+  ILA: 'ILS',
+};
+
+export const normalizeCurrency = (code: string | undefined): string | undefined => {
+  if (!code) return undefined;
+  return MINOR_UNIT_CURRENCIES[code] ?? code.toUpperCase();
+};
+
+// Quote currency per ticker, or undefined when the profile is unavailable (e.g. imported
+// datasets) or does not say.
+export const fetchQuoteCurrencies = async (
+  tickers: string[],
+  signal?: AbortSignal
+): Promise<{ [ticker: string]: string | undefined }> => {
+  const currencies = await mapWithConcurrency(tickers, 4, async ticker => {
+    try {
+      const { data } = await fetchStockData(ticker, 'info', undefined, undefined, { signal });
+      return normalizeCurrency(data.currency);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return undefined;
+    }
+  });
+  return tickers.reduce((acc, ticker, i) => {
+    acc[ticker] = currencies[i];
+    return acc;
+  }, {} as { [ticker: string]: string | undefined });
+};
+
+export interface FxSeries {
+  // Pair the rates were read from, e.g. 'EURUSD=X' (or the inverse pair when only that exists).
+  symbol: string;
+  // Ascending calendar days with the base-currency price of one unit of the quote currency.
+  rates: { day: string; rate: number }[];
+}
+
+const toSeries = (symbol: string, history: StockData[], invert: boolean): FxSeries => ({
+  symbol,
+  rates: history
+    .filter(bar => bar.Close > 0)
+    .map(bar => ({ day: bar.Date.slice(0, 10), rate: invert ? 1 / bar.Close : bar.Close }))
+    .sort((a, b) => a.day.localeCompare(b.day)),
+});
+
+// Daily rates for converting `currency` into `base`. Tries the direct pair and then the
+// inverse one. The window starts a week early so the first bars have a rate to carry forward.
+export const fetchFxSeries = async (
+  currency: string,
+  base: string,
+  { start, end }: DateRange,
+  signal?: AbortSignal
+): Promise<FxSeries> => {
+  const options = { signal, start: addDays(start, -7), end };
+  const tryPair = async (symbol: string, invert: boolean): Promise<FxSeries | null> => {
+    try {
+      const { data } = await fetchStockData(symbol, 'history', 'max', '1d', options);
+      const series = toSeries(symbol, data, invert);
+      return series.rates.length > 0 ? series : null;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return null;
+    }
+  };
+  const direct = `${currency}${base}=X`;
+  const inverse = `${base}${currency}=X`;
+  const series = (await tryPair(direct, false)) ?? (await tryPair(inverse, true));
+  if (!series) throw new Error(`no FX history for ${currency}/${base} (tried ${direct} and ${inverse}).`);
+  return series;
+};
+
+// The rate in effect on each bar's calendar day: the latest fixing on or before it. Bars
+// before the first fixing use the first one.
+export const ratesForBars = (bars: { Date: string }[], fx: FxSeries): number[] => {
+  let j = 0;
+  return bars.map(bar => {
+    const day = bar.Date.slice(0, 10);
+    while (j + 1 < fx.rates.length && fx.rates[j + 1].day <= day) j++;
+    return fx.rates[j].rate;
+  });
+};
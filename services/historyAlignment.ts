@@ -0,0 +1,125 @@
+import { StockData } from '../types';
+import { isIntradayInterval } from './marketSessions';
+
+// How multi-ticker histories are lined up on a common date axis.
+// - 'forward-fill': union of dates; a missing bar repeats the last known bar (Volume 0) for
+//   at most `maxFillGap` consecutive bars. Dates still missing for any ticker are dropped.
+// - 'intersection': only dates on which every ticker has a real bar.
+// - 'none': no synthesized bars; each ticker keeps its own bars, so series may differ in
+//   length and consumers must join them by `alignmentKey`.
+export type AlignmentPolicy = 'forward-fill' | 'intersection' | 'none';
+
+export interface AlignmentOptions {
+  policy: AlignmentPolicy;
+  // Maximum consecutive bars forward-fill may synthesize; unlimited when omitted.
+  maxFillGap?: number;
+}
+
+export interface AlignedHistories {
+  histories: { [ticker: string]: StockData[] };
+  // Dates of synthesized (forward-filled) bars per ticker.
+  filledDates: { [ticker: string]: string[] };
+}
+
+export const DEFAULT_ALIGNMENT: AlignmentOptions = { policy: 'forward-fill' };
+
+export const ALIGNMENT_POLICY_OPTIONS: { value: AlignmentPolicy; label: string }[] = [
+  { value: 'forward-fill', label: 'Forward-fill gaps' },
+  { value: 'intersection', label: 'Common dates only' },
+  { value: 'none', label: 'No fill (join by date)' },
+];
+
+const toTime = (date: string) => new Date(date).getTime();
+
+// Key bars are joined on. Daily and coarser bars carry the exchange's UTC offset
+// (e.g. -05:00 for New York, +09:00 for Tokyo), so they are matched by calendar day;
+// intraday bars keep their full timestamp.
+export const alignmentKey = (date: string, interval: string): string =>
+  isIntradayInterval(interval) ? date : date.slice(0, 10);
+
+export const alignHistories = (
+  raw: { [ticker: string]: StockData[] },
+  { policy, maxFillGap = Infinity }: AlignmentOptions = DEFAULT_ALIGNMENT,
+  interval: string = '1d'
+): AlignedHistories => {
+  const tickers = Object.keys(raw).filter(t => raw[t].length > 0);
+  const histories: AlignedHistories['histories'] = {};
+  const filledDates: AlignedHistories['filledDates'] = {};
+  if (tickers.length === 0) return { histories, filledDates };
+
+  const keyOf = (bar: StockData) => alignmentKey(bar.Date, interval);
+  const sorted: { [ticker: string]: StockData[] } = {};
+  tickers.forEach(t => {
+    sorted[t] = [...raw[t]].sort((a, b) => toTime(a.Date) - toTime(b.Date));
+  });
+
+  // Series are trimmed to the latest first bar so every ticker has data from the start.
+  const latestStart = Math.max(...tickers.map(t => toTime(keyOf(sorted[t][0]))));
+
+  if (policy === 'none') {
+    tickers.forEach(t => {
+      histories[t] = sorted[t].filter(d => toTime(keyOf(d)) >= latestStart);
+      filledDates[t] = [];
+    });
+    return { histories, filledDates };
+  }
+
+  const allDatesSet = new Set<string>();
+  tickers.forEach(t => sorted[t].forEach(d => allDatesSet.add(keyOf(d))));
+  const allDates = Array.from(allDatesSet).sort((a, b) => toTime(a) - toTime(b));
+
+  // For every ticker, the bar to use on each date key (real, filled or missing). A filled daily
+  // bar keeps the time and offset of the ticker's own bars.
+  const barsByTicker: { [ticker: string]: Map<string, { bar: StockData; filled: boolean }> } = {};
+  tickers.forEach(t => {
+    const priceMap = new Map(sorted[t].map(d => [keyOf(d), d]));
+    const bars = new Map<string, { bar: StockData; filled: boolean }>();
+    let lastKnown: StockData | null = null;
+    let gap = 0;
+
+    for (const date of allDates) {
+      const real = priceMap.get(date);
+      if (real) {
+        bars.set(date, { bar: real, filled: false });
+        lastKnown = real;
+        gap = 0;
+      } else if (policy === 'forward-fill' && lastKnown) {
+        gap++;
+        const filledDate = isIntradayInterval(interval) ? date : date + lastKnown.Date.slice(10);
+        if (gap <= maxFillGap) bars.set(date, { bar: { ...lastKnown, Date: filledDate, Volume: 0 }, filled: true });
+      }
+    }
+    barsByTicker[t] = bars;
+  });
+
+  const keptDates = allDates.filter(
+    date => toTime(date) >= latestStart && tickers.every(t => barsByTicker[t].has(date))
+  );
+
+  tickers.forEach(t => {
+    histories[t] = keptDates.map(date => barsByTicker[t].get(date)!.bar);
+    filledDates[t] = keptDates.filter(date => barsByTicker[t].get(date)!.filled).map(date => barsByTicker[t].get(date)!.bar.Date);
+  });
+
+  return { histories, filledDates };
+};
+
+export interface FilledBarsSummary {
+  ticker: string;
+  filled: number;
+  total: number;
+}
+
+// Counts how many bars of each (possibly sliced) history were synthesized by alignment.
+export const summarizeFilledBars = (
+  histories: { [ticker: string]: StockData[] },
+  filledDates: { [ticker: string]: string[] }
+): FilledBarsSummary[] =>
+  Object.keys(histories).map(ticker => {
+    const filled = new Set(filledDates[ticker] || []);
+    return {
+      ticker,
+      filled: histories[ticker].filter(d => filled.has(d.Date)).length,
+      total: histories[ticker].length,
+    };
+  });
@@ -0,0 +1,147 @@
+// Shared HTTP plumbing for providers: cancellation, per-attempt timeouts, retries with
+// exponential backoff for 429/5xx (honoring Retry-After), and a small concurrency limiter.
+
+export interface RequestPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+  timeoutMs: 20000,
+};
+
+const STORAGE_KEY = 'equity-explorer:request-policy';
+
+const loadStoredPolicy = (): RequestPolicy => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return { ...DEFAULT_REQUEST_POLICY, ...JSON.parse(raw) };
+  } catch {}
+  return DEFAULT_REQUEST_POLICY;
+};
+
+let requestPolicy: RequestPolicy = loadStoredPolicy();
+
+export const getRequestPolicy = (): RequestPolicy => requestPolicy;
+
+export const setRequestPolicy = (policy: Partial<RequestPolicy>) => {
+  requestPolicy = { ...requestPolicy, ...policy };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(requestPolicy));
+  } catch {}
+};
+
+export const createAbortError = () => new DOMException('The request was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+const isRetryableStatus = (status: number) => status === 429 || (status >= 500 && status <= 599);
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const backoffDelay = (attempt: number, policy: RequestPolicy) => {
+  const exponential = policy.baseDelayMs * 2 ** attempt;
+  // Full jitter keeps many parallel portfolio requests from retrying in lockstep.
+  return Math.min(policy.maxDelayMs, Math.random() * exponential);
+};
+
+// Resolves after `ms` (0 yields to the event loop); rejects with an AbortError on abort.
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs one fetch attempt that is aborted either by the caller or by the timeout.
+const fetchAttempt = async (url: string, timeoutMs: number, signal?: AbortSignal): Promise<Response> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await fetch(url, { signal: controller.signal });
+  } catch (error) {
+    if (timedOut) throw new Error(`Request timed out after ${Math.round(timeoutMs / 1000)}s.`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+export const fetchWithRetry = async (
+  url: string,
+  signal?: AbortSignal,
+  policyOverrides?: Partial<RequestPolicy>
+): Promise<Response> => {
+  const policy = { ...requestPolicy, ...policyOverrides };
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    let response: Response;
+    try {
+      response = await fetchAttempt(url, policy.timeoutMs, signal);
+    } catch (error) {
+      // Network failures and timeouts are retried; caller cancellation is not.
+      if (isAbortError(error) || attempt >= policy.retries) throw error;
+      await sleep(backoffDelay(attempt, policy), signal);
+      continue;
+    }
+
+    if (!isRetryableStatus(response.status) || attempt >= policy.retries) return response;
+
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    await sleep(Math.min(policy.maxDelayMs, retryAfter ?? backoffDelay(attempt, policy)), signal);
+  }
+};
+
+// Maps `items` through `task` with at most `limit` tasks in flight, preserving order.
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+};
@@ -0,0 +1,271 @@
+// Technical indicators computed from ascending `StockData[]`. Every series is aligned with
+// the input bars; bars before an indicator has enough history are null.
+
+import { StockData } from '../types';
+import { isIntradayInterval } from './marketSessions';
+
+export type IndicatorType = 'sma' | 'ema' | 'vwap' | 'rsi' | 'macd' | 'bollinger' | 'atr' | 'stochastic' | 'obv';
+
+export type IndicatorValues = (number | null)[];
+
+export interface IndicatorParamDefinition {
+  name: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  step?: number;
+}
+
+export interface IndicatorDefinition {
+  type: IndicatorType;
+  label: string;
+  // Overlays share the price axis; panes get their own axis below the chart.
+  placement: 'overlay' | 'pane';
+  params: IndicatorParamDefinition[];
+}
+
+export interface IndicatorConfig {
+  id: string;
+  type: IndicatorType;
+  params: { [name: string]: number };
+}
+
+export interface IndicatorSeries {
+  // Column name in the table and CSV export, e.g. 'SMA(20)' or 'MACD(12,26,9) Signal'.
+  key: string;
+  values: IndicatorValues;
+  style?: 'line' | 'histogram';
+}
+
+export interface IndicatorOutput {
+  config: IndicatorConfig;
+  label: string;
+  placement: 'overlay' | 'pane';
+  series: IndicatorSeries[];
+  // Fixed axis range and reference lines for bounded oscillators.
+  range?: [number, number];
+  levels?: number[];
+}
+
+const period = (name = 'period', label = 'Period', defaultValue = 20): IndicatorParamDefinition =>
+  ({ name, label, defaultValue, min: 1 });
+
+export const INDICATOR_DEFINITIONS: IndicatorDefinition[] = [
+  { type: 'sma', label: 'SMA', placement: 'overlay', params: [period()] },
+  { type: 'ema', label: 'EMA', placement: 'overlay', params: [period()] },
+  { type: 'vwap', label: 'VWAP', placement: 'overlay', params: [] },
+  {
+    type: 'bollinger',
+    label: 'Bollinger Bands',
+    placement: 'overlay',
+    params: [period(), { name: 'stdDevs', label: 'Std Devs', defaultValue: 2, min: 0.1, step: 0.1 }],
+  },
+  { type: 'rsi', label: 'RSI', placement: 'pane', params: [period('period', 'Period', 14)] },
+  {
+    type: 'macd',
+    label: 'MACD',
+    placement: 'pane',
+    params: [period('fast', 'Fast', 12), period('slow', 'Slow', 26), period('signal', 'Signal', 9)],
+  },
+  { type: 'atr', label: 'ATR', placement: 'pane', params: [period('period', 'Period', 14)] },
+  {
+    type: 'stochastic',
+    label: 'Stochastic',
+    placement: 'pane',
+    params: [period('k', '%K', 14), period('d', '%D', 3)],
+  },
+  { type: 'obv', label: 'OBV', placement: 'pane', params: [] },
+];
+
+export const getIndicatorDefinition = (type: IndicatorType): IndicatorDefinition =>
+  INDICATOR_DEFINITIONS.find(d => d.type === type)!;
+
+export const defaultIndicatorParams = (type: IndicatorType): { [name: string]: number } =>
+  getIndicatorDefinition(type).params.reduce((acc, p) => {
+    acc[p.name] = p.defaultValue;
+    return acc;
+  }, {} as { [name: string]: number });
+
+// --- Building blocks ---
+
+export const sma = (values: number[], length: number): IndicatorValues => {
+  const out: IndicatorValues = new Array(values.length).fill(null);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= length) sum -= values[i - length];
+    if (i >= length - 1) out[i] = sum / length;
+  }
+  return out;
+};
+
+// Seeded with the SMA of the first `length` values.
+export const ema = (values: number[], length: number): IndicatorValues => {
+  const out: IndicatorValues = new Array(values.length).fill(null);
+  if (values.length < length) return out;
+  const k = 2 / (length + 1);
+  let prev = values.slice(0, length).reduce((a, b) => a + b, 0) / length;
+  out[length - 1] = prev;
+  for (let i = length; i < values.length; i++) {
+    prev = values[i] * k + prev * (1 - k);
+    out[i] = prev;
+  }
+  return out;
+};
+
+// Wilder's smoothing (an EMA with alpha = 1/length), seeded with a simple average.
+const wilder = (values: number[], length: number, offset = 0): IndicatorValues => {
+  const out: IndicatorValues = new Array(values.length).fill(null);
+  if (values.length - offset < length) return out;
+  let prev = values.slice(offset, offset + length).reduce((a, b) => a + b, 0) / length;
+  out[offset + length - 1] = prev;
+  for (let i = offset + length; i < values.length; i++) {
+    prev = (prev * (length - 1) + values[i]) / length;
+    out[i] = prev;
+  }
+  return out;
+};
+
+// EMA over a series that starts with nulls (e.g. the MACD line).
+const emaOfSparse = (values: IndicatorValues, length: number): IndicatorValues => {
+  const first = values.findIndex(v => v !== null);
+  if (first < 0) return values.map(() => null);
+  const tail = ema(values.slice(first) as number[], length);
+  return [...new Array(first).fill(null), ...tail];
+};
+
+const smaOfSparse = (values: IndicatorValues, length: number): IndicatorValues =>
+  values.map((_, i) => {
+    if (i < length - 1) return null;
+    const window = values.slice(i - length + 1, i + 1);
+    return window.every(v => v !== null) ? window.reduce((a, b) => a + b!, 0) / length : null;
+  });
+
+// Volume-weighted average price of the typical price. Intraday bars restart each session;
+// daily and coarser bars accumulate from the first bar shown (anchored VWAP).
+export const vwap = (bars: StockData[], intraday: boolean): IndicatorValues => {
+  let pv = 0, vol = 0, day = '';
+  return bars.map(bar => {
+    const barDay = bar.Date.slice(0, 10);
+    if (intraday && barDay !== day) { pv = 0; vol = 0; day = barDay; }
+    const typical = (bar.High + bar.Low + bar.Close) / 3;
+    pv += typical * bar.Volume;
+    vol += bar.Volume;
+    return vol > 0 ? pv / vol : typical;
+  });
+};
+
+export const rsi = (closes: number[], length: number): IndicatorValues => {
+  const gains = closes.map((c, i) => (i === 0 ? 0 : Math.max(0, c - closes[i - 1])));
+  const losses = closes.map((c, i) => (i === 0 ? 0 : Math.max(0, closes[i - 1] - c)));
+  const avgGain = wilder(gains, length, 1);
+  const avgLoss = wilder(losses, length, 1);
+  return closes.map((_, i) => {
+    const g = avgGain[i], l = avgLoss[i];
+    if (g === null || l === null) return null;
+    if (l === 0) return g === 0 ? 50 : 100;
+    return 100 - 100 / (1 + g / l);
+  });
+};
+
+export const trueRange = (bars: StockData[]): number[] =>
+  bars.map((bar, i) => {
+    if (i === 0) return bar.High - bar.Low;
+    const prevClose = bars[i - 1].Close;
+    return Math.max(bar.High - bar.Low, Math.abs(bar.High - prevClose), Math.abs(bar.Low - prevClose));
+  });
+
+export const atr = (bars: StockData[], length: number): IndicatorValues => wilder(trueRange(bars), length);
+
+export const obv = (bars: StockData[]): IndicatorValues => {
+  let total = 0;
+  return bars.map((bar, i) => {
+    if (i > 0) {
+      if (bar.Close > bars[i - 1].Close) total += bar.Volume;
+      else if (bar.Close < bars[i - 1].Close) total -= bar.Volume;
+    }
+    return total;
+  });
+};
+
+const rollingStdDev = (values: number[], length: number): IndicatorValues =>
+  values.map((_, i) => {
+    if (i < length - 1) return null;
+    const window = values.slice(i - length + 1, i + 1);
+    const mean = window.reduce((a, b) => a + b, 0) / length;
+    return Math.sqrt(window.reduce((acc, v) => acc + (v - mean) ** 2, 0) / length);
+  });
+
+// --- Dispatcher ---
+
+const formatParam = (value: number) => String(Number(value.toFixed(4)));
+
+export const indicatorLabel = (config: IndicatorConfig): string => {
+  const definition = getIndicatorDefinition(config.type);
+  const args = definition.params.map(p => formatParam(config.params[p.name] ?? p.defaultValue));
+  const name = config.type === 'bollinger' ? 'BB' : definition.label;
+  return args.length > 0 ? `${name}(${args.join(',')})` : name;
+};
+
+export const computeIndicator = (bars: StockData[], config: IndicatorConfig, interval: string): IndicatorOutput => {
+  const definition = getIndicatorDefinition(config.type);
+  const p = (name: string) => {
+    const param = definition.params.find(d => d.name === name)!;
+    const value = config.params[name] ?? param.defaultValue;
+    return Math.max(param.min, param.step ? value : Math.round(value));
+  };
+  const label = indicatorLabel(config);
+  const closes = bars.map(bar => bar.Close);
+  const output = (series: IndicatorSeries[], extra: Partial<IndicatorOutput> = {}): IndicatorOutput =>
+    ({ config, label, placement: definition.placement, series, ...extra });
+
+  switch (config.type) {
+    case 'sma':
+      return output([{ key: label, values: sma(closes, p('period')) }]);
+    case 'ema':
+      return output([{ key: label, values: ema(closes, p('period')) }]);
+    case 'vwap':
+      return output([{ key: label, values: vwap(bars, isIntradayInterval(interval)) }]);
+    case 'bollinger': {
+      const middle = sma(closes, p('period'));
+      const sd = rollingStdDev(closes, p('period'));
+      const band = (sign: number) => middle.map((m, i) => (m === null || sd[i] === null ? null : m + sign * p('stdDevs') * sd[i]!));
+      return output([
+        { key: `${label} Upper`, values: band(1) },
+        { key: `${label} Middle`, values: middle },
+        { key: `${label} Lower`, values: band(-1) },
+      ]);
+    }
+    case 'rsi':
+      return output([{ key: label, values: rsi(closes, p('period')) }], { range: [0, 100], levels: [30, 70] });
+    case 'macd': {
+      const fast = ema(closes, p('fast'));
+      const slow = ema(closes, p('slow'));
+      const line = fast.map((f, i) => (f === null || slow[i] === null ? null : f - slow[i]!));
+      const signal = emaOfSparse(line, p('signal'));
+      return output([
+        { key: label, values: line },
+        { key: `${label} Signal`, values: signal },
+        { key: `${label} Histogram`, values: line.map((m, i) => (m === null || signal[i] === null ? null : m - signal[i]!)), style: 'histogram' },
+      ], { levels: [0] });
+    }
+    case 'atr':
+      return output([{ key: label, values: atr(bars, p('period')) }]);
+    case 'stochastic': {
+      const length = p('k');
+      const k: IndicatorValues = bars.map((bar, i) => {
+        if (i < length - 1) return null;
+        const window = bars.slice(i - length + 1, i + 1);
+        const lowest = Math.min(...window.map(b => b.Low));
+        const highest = Math.max(...window.map(b => b.High));
+        return highest === lowest ? 50 : ((bar.Close - lowest) / (highest - lowest)) * 100;
+      });
+      return output([
+        { key: `${label} %K`, values: k },
+        { key: `${label} %D`, values: smaOfSparse(k, p('d')) },
+      ], { range: [0, 100], levels: [20, 80] });
+    }
+    case 'obv':
+      return output([{ key: label, values: obv(bars) }]);
+  }
+};
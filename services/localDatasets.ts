@@ -0,0 +1,177 @@
+// Price histories imported from CSV files and registered as pseudo-tickers. Their symbols
+// carry a `LOCAL:` prefix so they can never shadow a real ticker; such a symbol is served from
+// here instead of the active data source, so it works anywhere a ticker does (History,
+// multi-ticker alignment, Risk Engine, Vol Lab). Datasets persist in localStorage.
+
+import { StockData, ValidationWarning } from '../types';
+import { validateResponse, ValidationResult } from './responseValidation';
+import { parseBarTime } from './marketSessions';
+import { toIsoDate } from '../utils/dateRange';
+
+export type MappableField = 'Date' | 'Open' | 'High' | 'Low' | 'Close' | 'Volume' | 'PriceReturnClose' | 'TotalReturnClose';
+
+// Column index for each field; fields left out are derived (OHLC from Close, Volume as 0,
+// adjusted closes from Close).
+export type ColumnMapping = { [field in MappableField]?: number };
+
+export const MAPPABLE_FIELDS: { field: MappableField; label: string; required: boolean }[] = [
+  { field: 'Date', label: 'Date', required: true },
+  { field: 'Open', label: 'Open', required: false },
+  { field: 'High', label: 'High', required: false },
+  { field: 'Low', label: 'Low', required: false },
+  { field: 'Close', label: 'Close', required: true },
+  { field: 'Volume', label: 'Volume', required: false },
+  { field: 'PriceReturnClose', label: 'Split-Adj Close', required: false },
+  { field: 'TotalReturnClose', label: 'Total Return Close', required: false },
+];
+
+export interface LocalDataset {
+  symbol: string;
+  fileName: string;
+  // Epoch ms of the import.
+  importedAt: number;
+  // Ascending bars.
+  rows: StockData[];
+  warnings: ValidationWarning[];
+}
+
+const STORAGE_KEY = 'equity-explorer:local-datasets';
+
+// Header spellings recognized without user input, compared lowercase with punctuation removed.
+const HEADER_ALIASES: { [field in MappableField]: string[] } = {
+  Date: ['date', 'datetime', 'timestamp', 'time', 'day', 'tradedate'],
+  Open: ['open', 'o', 'openprice'],
+  High: ['high', 'h', 'highprice'],
+  Low: ['low', 'l', 'lowprice'],
+  Close: ['close', 'c', 'last', 'price', 'closeprice', 'pxlast'],
+  Volume: ['volume', 'vol', 'v'],
+  PriceReturnClose: ['pricereturnclose', 'splitadjclose', 'splitadjustedclose'],
+  TotalReturnClose: ['totalreturnclose', 'adjclose', 'adjustedclose'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  MAPPABLE_FIELDS.forEach(({ field }) => {
+    const index = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+    if (index >= 0) mapping[field] = index;
+  });
+  return mapping;
+};
+
+export const LOCAL_SYMBOL_PREFIX = 'LOCAL:';
+
+export const isLocalSymbol = (symbol: string) => symbol.toUpperCase().startsWith(LOCAL_SYMBOL_PREFIX);
+
+// `MYFUND` -> `LOCAL:MYFUND`.
+export const toLocalSymbol = (name: string) => `${LOCAL_SYMBOL_PREFIX}${name.toUpperCase()}`;
+
+// Validates the name part of a local symbol (without the prefix).
+export const isValidLocalSymbol = (name: string) => /^[A-Z0-9][A-Z0-9._^=-]{0,19}$/.test(name);
+
+// ISO dates and timestamps are kept verbatim (that is what the CSV export writes); other
+// layouts such as `03/01/2024` are parsed by the browser and rewritten as `YYYY-MM-DD`.
+const normalizeDate = (value: string): string => {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) return trimmed;
+  const parsed = new Date(trimmed);
+  return isNaN(parsed.getTime()) ? trimmed : toIsoDate(parsed);
+};
+
+// Strips currency symbols, thousands separators and whitespace; validation reports the rest.
+const cleanNumber = (value: string | undefined): string | undefined => {
+  if (value === undefined) return undefined;
+  const cleaned = value.replace(/[\s$,]/g, '');
+  return cleaned === '' ? undefined : cleaned;
+};
+
+const toFiniteNumber = (value: unknown): number | undefined => {
+  const num = typeof value === 'string' ? Number(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : undefined;
+};
+
+// Turns parsed CSV rows (header row excluded) into validated, ascending, de-duplicated bars.
+export const buildDatasetRows = (rows: string[][], mapping: ColumnMapping): ValidationResult<StockData[]> => {
+  if (mapping.Date === undefined || mapping.Close === undefined) {
+    throw new Error('Map at least the Date and Close columns.');
+  }
+  const cellOf = (cells: string[], field: MappableField) =>
+    mapping[field] === undefined ? undefined : cells[mapping[field]!];
+
+  const raw = rows.map(cells => ({
+    Date: normalizeDate(cellOf(cells, 'Date') ?? ''),
+    Open: cleanNumber(cellOf(cells, 'Open')),
+    High: cleanNumber(cellOf(cells, 'High')),
+    Low: cleanNumber(cellOf(cells, 'Low')),
+    Close: cleanNumber(cellOf(cells, 'Close')),
+    Volume: cleanNumber(cellOf(cells, 'Volume')),
+    PriceReturnClose: cleanNumber(cellOf(cells, 'PriceReturnClose')),
+    TotalReturnClose: cleanNumber(cellOf(cells, 'TotalReturnClose')),
+  }));
+
+  const { data, warnings } = validateResponse('history', raw);
+  const byDate = new Map<string, StockData>();
+  let duplicates = 0;
+  (data as StockData[]).forEach(bar => {
+    if (byDate.has(bar.Date)) duplicates++;
+    const priceReturnClose = toFiniteNumber(bar.PriceReturnClose) ?? bar.Close;
+    byDate.set(bar.Date, {
+      ...bar,
+      PriceReturnClose: priceReturnClose,
+      TotalReturnClose: toFiniteNumber(bar.TotalReturnClose) ?? priceReturnClose,
+    });
+  });
+  if (duplicates > 0) {
+    warnings.push({ field: 'Date', message: 'duplicate date; the last row was kept', count: duplicates });
+  }
+
+  const sorted = Array.from(byDate.values())
+    .sort((a, b) => parseBarTime(a.Date).getTime() - parseBarTime(b.Date).getTime());
+  return { data: sorted, warnings };
+};
+
+// --- Registry ---
+
+let datasets: { [symbol: string]: LocalDataset } | null = null;
+
+// Datasets saved before symbols were prefixed are moved under their `LOCAL:` name.
+const loadDatasets = (): { [symbol: string]: LocalDataset } => {
+  if (datasets) return datasets;
+  let stored: { [symbol: string]: LocalDataset };
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') || {};
+  } catch {
+    stored = {};
+  }
+  datasets = {};
+  Object.values(stored).forEach(dataset => {
+    const symbol = isLocalSymbol(dataset.symbol) ? dataset.symbol : toLocalSymbol(dataset.symbol);
+    datasets![symbol] = { ...dataset, symbol };
+  });
+  return datasets;
+};
+
+const persist = (next: { [symbol: string]: LocalDataset }) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    throw new Error('Browser storage is full. Delete an imported dataset or import fewer rows.');
+  }
+  datasets = next;
+};
+
+export const listLocalDatasets = (): LocalDataset[] =>
+  Object.values(loadDatasets()).sort((a, b) => a.symbol.localeCompare(b.symbol));
+
+export const getLocalDataset = (symbol: string): LocalDataset | undefined => loadDatasets()[symbol.toUpperCase()];
+
+export const saveLocalDataset = (dataset: LocalDataset): void => {
+  persist({ ...loadDatasets(), [dataset.symbol]: dataset });
+};
+
+export const deleteLocalDataset = (symbol: string): void => {
+  const { [symbol]: _removed, ...rest } = loadDatasets();
+  persist(rest);
+};
@@ -0,0 +1,182 @@
+// Pluggable market-data providers. Every provider exposes the same yfinance-style
+// payloads so components never need to know where the data came from.
+
+import { fetchWithRetry } from './http';
+import { addDays } from '../utils/dateRange';
+
+export interface HistoryParams {
+  period: string;
+  interval: string;
+  // Explicit window (YYYY-MM-DD, both inclusive). When `start` is set, `period` is ignored.
+  start?: string;
+  end?: string;
+  // Include pre- and post-market bars (intraday intervals only).
+  prepost?: boolean;
+}
+
+export interface MarketDataProvider {
+  id: string;
+  label: string;
+  history: (ticker: string, params: HistoryParams, signal?: AbortSignal) => Promise<any>;
+  info: (ticker: string, signal?: AbortSignal) => Promise<any>;
+  news: (ticker: string, signal?: AbortSignal) => Promise<any>;
+  actions: (ticker: string, signal?: AbortSignal) => Promise<any>;
+  financials: (ticker: string, signal?: AbortSignal) => Promise<any>;
+  recommendations: (ticker: string, signal?: AbortSignal) => Promise<any>;
+  holders: (ticker: string, signal?: AbortSignal) => Promise<any>;
+}
+
+export type ProviderConfig =
+  | { kind: 'yf-api' }
+  | { kind: 'self-hosted'; baseUrl: string }
+  | { kind: 'fixtures'; basePath: string };
+
+export const DEFAULT_API_BASE = 'https://yf-api-c0nm.onrender.com';
+export const DEFAULT_FIXTURE_PATH = '/fixtures';
+
+const STORAGE_KEY = 'equity-explorer:data-provider';
+
+// --- yfinance-style REST API (hosted or self-hosted) ---
+
+export const createYfApiProvider = (baseUrl: string, id = 'yf-api', label = 'Hosted yf-api'): MarketDataProvider => {
+  const base = baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, signal?: AbortSignal): Promise<any> => {
+    const response = await fetchWithRetry(`${base}${path}`, signal);
+
+    if (!response.ok) {
+      let errorMessage = `API request failed: ${response.statusText}`;
+      try {
+        const errorJson = await response.json();
+        if (errorJson.detail) errorMessage = errorJson.detail;
+      } catch {}
+      throw new Error(errorMessage);
+    }
+
+    return response.json();
+  };
+
+  const tickerRoute = (ticker: string, dataType: string) => `/ticker/${encodeURIComponent(ticker)}/${dataType}`;
+
+  return {
+    id,
+    label,
+    history: (ticker, { period, interval, start, end, prepost }, signal) => {
+      // yfinance treats `end` as exclusive, so ask for the day after the inclusive end.
+      const window = start
+        ? `start=${start}${end ? `&end=${addDays(end, 1)}` : ''}`
+        : `period=${period}`;
+      const extended = prepost ? '&prepost=true' : '';
+      return request(`${tickerRoute(ticker, 'history')}?${window}&interval=${interval}${extended}`, signal);
+    },
+    info: (ticker, signal) => request(tickerRoute(ticker, 'info'), signal),
+    news: (ticker, signal) => request(tickerRoute(ticker, 'news'), signal),
+    actions: (ticker, signal) => request(tickerRoute(ticker, 'actions'), signal),
+    financials: (ticker, signal) => request(tickerRoute(ticker, 'financials'), signal),
+    recommendations: (ticker, signal) => request(tickerRoute(ticker, 'recommendations'), signal),
+    holders: (ticker, signal) => request(tickerRoute(ticker, 'holders'), signal),
+  };
+};
+
+// --- Local fixture files ---
+
+// Maps a yfinance period string onto the earliest date it covers, relative to `end`.
+const periodStart = (period: string, end: Date): Date | null => {
+  const start = new Date(end);
+  if (period === 'max') return null;
+  if (period === 'ytd') return new Date(end.getFullYear(), 0, 1);
+  const match = /^(\d+)(d|mo|y)$/.exec(period);
+  if (!match) return null;
+  const amount = Number(match[1]);
+  if (match[2] === 'd') start.setDate(start.getDate() - amount);
+  if (match[2] === 'mo') start.setMonth(start.getMonth() - amount);
+  if (match[2] === 'y') start.setFullYear(start.getFullYear() - amount);
+  return start;
+};
+
+// Trims a full ascending history to an explicit start/end window, or to `period` relative
+// to its last bar. Used by sources that hold the whole series locally.
+export const sliceHistoryRows = (rows: any[], { period, start, end }: HistoryParams): any[] => {
+  if (!Array.isArray(rows) || rows.length === 0) return rows;
+  if (start) {
+    // Compare on the calendar day so timestamps with offsets still match inclusive bounds.
+    return rows.filter(row => {
+      const day = String(row.Date).slice(0, 10);
+      return day >= start && (!end || day <= end);
+    });
+  }
+  const lastDate = new Date(rows[rows.length - 1].Date);
+  const from = periodStart(period, lastDate);
+  return from ? rows.filter(row => new Date(row.Date) >= from) : rows;
+};
+
+// Reads static JSON files laid out as `<basePath>/<TICKER>/<dataType>.json`, e.g. files
+// dropped into Vite's `public/fixtures` folder. History files hold the full series and are
+// trimmed to the requested start/end, or to the period relative to their last bar.
+export const createFixtureProvider = (basePath: string, id = 'fixtures'): MarketDataProvider => {
+  const base = basePath.replace(/\/+$/, '');
+
+  const load = async (ticker: string, dataType: string, signal?: AbortSignal): Promise<any> => {
+    const response = await fetch(`${base}/${encodeURIComponent(ticker)}/${dataType}.json`, { signal });
+    if (!response.ok) {
+      throw new Error(`No local fixture for ${ticker} (${dataType}). Expected ${base}/${ticker}/${dataType}.json`);
+    }
+    try {
+      return await response.json();
+    } catch {
+      throw new Error(`Local fixture ${base}/${ticker}/${dataType}.json is not valid JSON.`);
+    }
+  };
+
+  return {
+    id,
+    label: 'Local fixtures',
+    history: async (ticker, params, signal) => sliceHistoryRows(await load(ticker, 'history', signal), params),
+    info: (ticker, signal) => load(ticker, 'info', signal),
+    news: (ticker, signal) => load(ticker, 'news', signal),
+    actions: (ticker, signal) => load(ticker, 'actions', signal),
+    financials: (ticker, signal) => load(ticker, 'financials', signal),
+    recommendations: (ticker, signal) => load(ticker, 'recommendations', signal),
+    holders: (ticker, signal) => load(ticker, 'holders', signal),
+  };
+};
+
+// --- Runtime selection ---
+
+export const createProvider = (config: ProviderConfig): MarketDataProvider => {
+  switch (config.kind) {
+    case 'self-hosted':
+      return createYfApiProvider(config.baseUrl, `self-hosted:${config.baseUrl}`, 'Self-hosted API');
+    case 'fixtures':
+      return createFixtureProvider(config.basePath, `fixtures:${config.basePath}`);
+    default:
+      return createYfApiProvider(DEFAULT_API_BASE);
+  }
+};
+
+const loadStoredConfig = (): ProviderConfig => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      if (parsed.kind === 'self-hosted' && typeof parsed.baseUrl === 'string') return parsed;
+      if (parsed.kind === 'fixtures' && typeof parsed.basePath === 'string') return parsed;
+    }
+  } catch {}
+  return { kind: 'yf-api' };
+};
+
+let activeConfig: ProviderConfig = loadStoredConfig();
+let activeProvider: MarketDataProvider = createProvider(activeConfig);
+
+export const getProviderConfig = (): ProviderConfig => activeConfig;
+
+export const getActiveProvider = (): MarketDataProvider => activeProvider;
+
+export const setProviderConfig = (config: ProviderConfig) => {
+  activeConfig = config;
+  activeProvider = createProvider(config);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch {}
+};
@@ -0,0 +1,165 @@
+// Intraday bar helpers: the history windows each interval supports, trading-session
+// classification in the exchange's time zone, and annualization by bar size.
+
+import { addDays, DateRange, parseIsoDate, todayIso } from '../utils/dateRange';
+
+export type TimeZoneMode = 'exchange' | 'local';
+
+export const TIME_ZONE_OPTIONS: { value: TimeZoneMode; label: string }[] = [
+  { value: 'exchange', label: 'Exchange Time' },
+  { value: 'local', label: 'My Time' },
+];
+
+export type SessionFlag = 'pre' | 'regular' | 'post';
+
+export const isIntradayInterval = (interval: string) => /^\d+(m|h)$/.test(interval);
+
+// yfinance only serves intraday bars for recent history: `maxSpanDays` is the longest window
+// one request may cover and `maxAgeDays` how far back its start may be.
+const INTRADAY_LIMITS: { [interval: string]: { maxSpanDays: number; maxAgeDays: number } } = {
+  '1m': { maxSpanDays: 7, maxAgeDays: 30 },
+  '5m': { maxSpanDays: 60, maxAgeDays: 60 },
+  '15m': { maxSpanDays: 60, maxAgeDays: 60 },
+  '30m': { maxSpanDays: 60, maxAgeDays: 60 },
+  '1h': { maxSpanDays: 729, maxAgeDays: 729 },
+};
+
+// Calendar days covered by a yfinance period string; Infinity for 'max' and unknown values.
+export const periodDays = (period: string): number => {
+  if (period === 'ytd') {
+    const today = parseIsoDate(todayIso());
+    return Math.round((today.getTime() - new Date(today.getFullYear(), 0, 1).getTime()) / 86400000) + 1;
+  }
+  const match = /^(\d+)(d|mo|y)$/.exec(period);
+  if (!match) return Infinity;
+  const amount = Number(match[1]);
+  if (match[2] === 'd') return amount;
+  if (match[2] === 'mo') return Math.ceil(amount * 30.5);
+  return Math.ceil(amount * 365.25);
+};
+
+export const isPeriodAllowed = (period: string, interval: string): boolean => {
+  const limit = INTRADAY_LIMITS[interval];
+  return !limit || periodDays(period) <= limit.maxSpanDays;
+};
+
+// Human-readable reason an explicit window cannot be served at this interval, or null.
+export const intradayRangeError = (interval: string, start: string, end: string): string | null => {
+  const limit = INTRADAY_LIMITS[interval];
+  if (!limit) return null;
+  const spanDays = Math.round((parseIsoDate(end).getTime() - parseIsoDate(start).getTime()) / 86400000) + 1;
+  if (spanDays > limit.maxSpanDays) {
+    return `${interval} bars can be requested for at most ${limit.maxSpanDays} days at a time.`;
+  }
+  if (start < addDays(todayIso(), -limit.maxAgeDays)) {
+    return `${interval} bars are only available for the last ${limit.maxAgeDays} days.`;
+  }
+  return null;
+};
+
+// The longest window ending today that one request at this intraday interval may cover.
+export const intradayLookbackRange = (interval: string): DateRange => {
+  const end = todayIso();
+  const days = INTRADAY_LIMITS[interval]?.maxSpanDays ?? 1;
+  return { start: addDays(end, -(days - 1)), end };
+};
+
+// Regular trading hours in exchange-local minutes after midnight. Unlisted zones use US hours.
+const REGULAR_SESSIONS: { [timeZone: string]: [number, number] } = {
+  'America/New_York': [570, 960],
+  'America/Chicago': [510, 900],
+  'America/Toronto': [570, 960],
+  'Europe/London': [480, 990],
+  'Europe/Berlin': [540, 1050],
+  'Europe/Paris': [540, 1050],
+  'Europe/Amsterdam': [540, 1050],
+  'Europe/Zurich': [540, 1050],
+  'Asia/Tokyo': [540, 900],
+  'Asia/Hong_Kong': [570, 960],
+  'Asia/Shanghai': [570, 900],
+  'Australia/Sydney': [600, 960],
+};
+const DEFAULT_SESSION: [number, number] = [570, 960];
+
+// Regular-session bars per trading day and trading days per year, for annualizing returns.
+const TRADING_DAYS_PER_YEAR = 252;
+const BARS_PER_YEAR: { [interval: string]: number } = {
+  '1d': TRADING_DAYS_PER_YEAR,
+  '1wk': 52,
+  '1mo': 12,
+};
+
+// Intraday bars count the regular session of the exchange's zone (US hours when unknown).
+export const barsPerYear = (interval: string, exchangeTimeZone?: string): number => {
+  if (BARS_PER_YEAR[interval]) return BARS_PER_YEAR[interval];
+  const match = /^(\d+)(m|h)$/.exec(interval);
+  if (!match) return TRADING_DAYS_PER_YEAR;
+  const minutes = Number(match[1]) * (match[2] === 'h' ? 60 : 1);
+  const [open, close] = (exchangeTimeZone && REGULAR_SESSIONS[exchangeTimeZone]) || DEFAULT_SESSION;
+  return Math.ceil((close - open) / minutes) * TRADING_DAYS_PER_YEAR;
+};
+
+// yfinance timestamps look like `2024-03-01 09:30:00-05:00`; Safari needs the `T`.
+export const parseBarTime = (date: string): Date => new Date(date.replace(' ', 'T'));
+
+// Wall-clock minutes after midnight as written in the timestamp itself, which yfinance
+// already expresses in exchange time.
+const writtenMinutes = (date: string): number | null => {
+  const match = /[T ](\d{2}):(\d{2})/.exec(date);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+const zonedMinutes = (date: string, timeZone: string): number | null => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+      .formatToParts(parseBarTime(date));
+    const hour = Number(parts.find(p => p.type === 'hour')?.value);
+    const minute = Number(parts.find(p => p.type === 'minute')?.value);
+    return isNaN(hour) || isNaN(minute) ? null : hour * 60 + minute;
+  } catch {
+    return null;
+  }
+};
+
+// Where an intraday bar falls relative to the exchange's regular session.
+export const sessionFlag = (date: string, exchangeTimeZone?: string): SessionFlag => {
+  const zoned = exchangeTimeZone ? zonedMinutes(date, exchangeTimeZone) : null;
+  const minutes = zoned ?? writtenMinutes(date);
+  if (minutes === null) return 'regular';
+  const [open, close] = (exchangeTimeZone && REGULAR_SESSIONS[exchangeTimeZone]) || DEFAULT_SESSION;
+  if (minutes < open) return 'pre';
+  if (minutes >= close) return 'post';
+  return 'regular';
+};
+
+// Bar timestamp for display. Daily and coarser bars show the date only; intraday bars add the
+// time in the exchange's zone or the user's own.
+export const formatBarTime = (
+  date: string,
+  interval: string,
+  mode: TimeZoneMode = 'exchange',
+  exchangeTimeZone?: string
+): string => {
+  const parsed = parseBarTime(date);
+  if (isNaN(parsed.getTime())) return date;
+  if (!isIntradayInterval(interval)) {
+    return parsed.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+  }
+  if (mode === 'exchange' && !exchangeTimeZone) {
+    // Zone unknown: show the timestamp's own wall clock rather than guessing.
+    const match = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2})/.exec(date);
+    if (match) return `${match[1]} ${match[2]}`;
+  }
+  try {
+    return parsed.toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: mode === 'exchange' ? exchangeTimeZone : undefined,
+      timeZoneName: 'short',
+    });
+  } catch {
+    return date;
+  }
+};
@@ -0,0 +1,157 @@
+// Candlestick pattern and price-gap detection over ascending OHLC bars, with forward-return
+// statistics per pattern.
+
+import { StockData } from '../types';
+
+export type PatternType =
+  | 'doji'
+  | 'hammer'
+  | 'bullish_engulfing'
+  | 'bearish_engulfing'
+  | 'morning_star'
+  | 'evening_star'
+  | 'inside_bar'
+  | 'outside_bar'
+  | 'gap_up'
+  | 'gap_down';
+
+export type PatternBias = 'bullish' | 'bearish' | 'neutral';
+
+// `code` is the short tag drawn next to chart markers.
+export const PATTERN_DEFINITIONS: { type: PatternType; label: string; code: string; bias: PatternBias }[] = [
+  { type: 'doji', label: 'Doji', code: 'D', bias: 'neutral' },
+  { type: 'hammer', label: 'Hammer', code: 'H', bias: 'bullish' },
+  { type: 'bullish_engulfing', label: 'Bullish Engulfing', code: 'E', bias: 'bullish' },
+  { type: 'bearish_engulfing', label: 'Bearish Engulfing', code: 'E', bias: 'bearish' },
+  { type: 'morning_star', label: 'Morning Star', code: 'MS', bias: 'bullish' },
+  { type: 'evening_star', label: 'Evening Star', code: 'ES', bias: 'bearish' },
+  { type: 'inside_bar', label: 'Inside Bar', code: 'IB', bias: 'neutral' },
+  { type: 'outside_bar', label: 'Outside Bar', code: 'OB', bias: 'neutral' },
+  { type: 'gap_up', label: 'Gap Up', code: 'G', bias: 'bullish' },
+  { type: 'gap_down', label: 'Gap Down', code: 'G', bias: 'bearish' },
+];
+
+export const getPatternDefinition = (type: PatternType) => PATTERN_DEFINITIONS.find(d => d.type === type)!;
+
+export interface GapInfo {
+  // Price range left untraded between the previous bar and this one.
+  from: number;
+  to: number;
+  sizePct: number;
+  // Index of the first later bar that traded back through the whole gap; null while open.
+  filledIndex: number | null;
+}
+
+export interface PatternMatch {
+  type: PatternType;
+  // Index of the bar that completes the pattern.
+  index: number;
+  date: string;
+  gap?: GapInfo;
+}
+
+// Minimum prior move, over `TREND_BARS` bars, for a hammer to count as a reversal signal.
+const TREND_BARS = 5;
+
+const body = (bar: StockData) => Math.abs(bar.Close - bar.Open);
+const range = (bar: StockData) => bar.High - bar.Low;
+const isBullish = (bar: StockData) => bar.Close > bar.Open;
+const isBearish = (bar: StockData) => bar.Close < bar.Open;
+
+export const scanPatterns = (bars: StockData[]): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+  const add = (type: PatternType, index: number, gap?: GapInfo) =>
+    matches.push({ type, index, date: bars[index].Date, ...(gap ? { gap } : {}) });
+
+  bars.forEach((bar, i) => {
+    const r = range(bar);
+    if (r <= 0) return;
+    const b = body(bar);
+    const upperShadow = bar.High - Math.max(bar.Open, bar.Close);
+    const lowerShadow = Math.min(bar.Open, bar.Close) - bar.Low;
+
+    if (b <= 0.1 * r) add('doji', i);
+    if (i >= TREND_BARS && b > 0 && lowerShadow >= 2 * b && upperShadow <= Math.max(0.5 * b, 0.1 * r)
+      && bar.Close < bars[i - TREND_BARS].Close) add('hammer', i);
+
+    if (i < 1) return;
+    const prev = bars[i - 1];
+    if (isBearish(prev) && isBullish(bar) && bar.Open <= prev.Close && bar.Close >= prev.Open && b > body(prev)) add('bullish_engulfing', i);
+    if (isBullish(prev) && isBearish(bar) && bar.Open >= prev.Close && bar.Close <= prev.Open && b > body(prev)) add('bearish_engulfing', i);
+    if (bar.High < prev.High && bar.Low > prev.Low) add('inside_bar', i);
+    if (bar.High > prev.High && bar.Low < prev.Low) add('outside_bar', i);
+
+    if (bar.Low > prev.High || bar.High < prev.Low) {
+      const up = bar.Low > prev.High;
+      const from = up ? prev.High : bar.High;
+      const to = up ? bar.Low : prev.Low;
+      let filledIndex: number | null = null;
+      for (let j = i + 1; j < bars.length; j++) {
+        if (up ? bars[j].Low <= from : bars[j].High >= to) { filledIndex = j; break; }
+      }
+      add(up ? 'gap_up' : 'gap_down', i, { from, to, sizePct: up ? (to - from) / from : -(to - from) / to, filledIndex });
+    }
+
+    if (i < 2) return;
+    // Stars: a long first candle, a small-bodied second, and a third closing past the
+    // midpoint of the first candle's body.
+    const first = bars[i - 2];
+    const star = prev;
+    const firstMid = (first.Open + first.Close) / 2;
+    const longFirst = body(first) >= 0.5 * range(first) && body(first) > 0;
+    if (longFirst && body(star) <= 0.3 * body(first)) {
+      if (isBearish(first) && isBullish(bar) && Math.max(star.Open, star.Close) <= first.Close && bar.Close > firstMid) add('morning_star', i);
+      if (isBullish(first) && isBearish(bar) && Math.min(star.Open, star.Close) >= first.Close && bar.Close < firstMid) add('evening_star', i);
+    }
+  });
+
+  return matches;
+};
+
+export const FORWARD_HORIZONS = [1, 5, 20];
+
+export interface ForwardStats {
+  horizon: number;
+  // Matches with enough later bars to measure this horizon.
+  count: number;
+  mean: number | null;
+  median: number | null;
+  hitRate: number | null;
+  // Mean and hit rate over every bar, for comparison.
+  baseline: number | null;
+  baselineHitRate: number | null;
+}
+
+// Return from the close of bar `index` to the close `horizon` bars later.
+export const forwardReturn = (closes: number[], index: number, horizon: number): number | null =>
+  index + horizon < closes.length && closes[index] > 0 ? closes[index + horizon] / closes[index] - 1 : null;
+
+const summarizeForward = (values: number[]) => {
+  if (values.length === 0) return { mean: null, median: null, hitRate: null };
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return {
+    mean: values.reduce((a, b) => a + b, 0) / values.length,
+    median: sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2,
+    hitRate: values.filter(v => v > 0).length / values.length,
+  };
+};
+
+export const forwardStatsByPattern = (
+  closes: number[],
+  matches: PatternMatch[]
+): { [type in PatternType]?: ForwardStats[] } => {
+  const baselines = FORWARD_HORIZONS.map(h =>
+    summarizeForward(closes.map((_, i) => forwardReturn(closes, i, h)).filter((v): v is number => v !== null))
+  );
+  const result: { [type in PatternType]?: ForwardStats[] } = {};
+  PATTERN_DEFINITIONS.forEach(({ type }) => {
+    const indices = matches.filter(m => m.type === type).map(m => m.index);
+    if (indices.length === 0) return;
+    result[type] = FORWARD_HORIZONS.map((horizon, h) => {
+      const values = indices.map(i => forwardReturn(closes, i, horizon)).filter((v): v is number => v !== null);
+      return { horizon, count: values.length, ...summarizeForward(values), baseline: baselines[h].mean, baselineHitRate: baselines[h].hitRate };
+    });
+  });
+  return result;
+};
@@ -0,0 +1,183 @@
+// Return and risk statistics for a single price or value series (oldest first).
+
+import { parseBarTime } from './marketSessions';
+
+export const simpleReturns = (values: number[]): number[] => {
+  const returns: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    returns.push(values[i - 1] !== 0 ? values[i] / values[i - 1] - 1 : 0);
+  }
+  return returns;
+};
+
+export const logReturns = (values: number[]): number[] => {
+  const returns: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    returns.push(values[i - 1] > 0 && values[i] > 0 ? Math.log(values[i] / values[i - 1]) : 0);
+  }
+  return returns;
+};
+
+export const mean = (values: number[]): number =>
+  values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+
+// Sample standard deviation.
+export const stdDev = (values: number[]): number => {
+  const n = values.length;
+  if (n < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - m) ** 2, 0) / (n - 1));
+};
+
+// Annualized volatility of per-bar log returns.
+export const annualizedVolatility = (values: number[], periodsPerYear: number): number =>
+  stdDev(logReturns(values)) * Math.sqrt(periodsPerYear);
+
+export const totalReturn = (values: number[]): number =>
+  values.length < 2 || values[0] === 0 ? 0 : values[values.length - 1] / values[0] - 1;
+
+export interface Drawdown {
+  // Peak-to-trough decline as a negative fraction (0 when the series never falls).
+  depth: number;
+  peakIndex: number;
+  troughIndex: number;
+  // First index at or above the prior peak after the trough; null while still under water.
+  recoveryIndex: number | null;
+}
+
+// Drawdown from the running peak at every point, as negative fractions.
+export const drawdownSeries = (values: number[]): number[] => {
+  let peak = -Infinity;
+  return values.map(v => {
+    peak = Math.max(peak, v);
+    return peak > 0 ? v / peak - 1 : 0;
+  });
+};
+
+export const maxDrawdown = (values: number[]): Drawdown => {
+  let peakIndex = 0;
+  let worst: Drawdown = { depth: 0, peakIndex: 0, troughIndex: 0, recoveryIndex: null };
+  values.forEach((v, i) => {
+    if (v > values[peakIndex]) peakIndex = i;
+    const depth = values[peakIndex] > 0 ? v / values[peakIndex] - 1 : 0;
+    if (depth < worst.depth) worst = { depth, peakIndex, troughIndex: i, recoveryIndex: null };
+  });
+  if (worst.depth < 0) {
+    const recovery = values.findIndex((v, i) => i > worst.troughIndex && v >= values[worst.peakIndex]);
+    worst.recoveryIndex = recovery >= 0 ? recovery : null;
+  }
+  return worst;
+};
+
+export interface DrawdownEpisode extends Drawdown {
+  // Bars from peak to trough, and from trough to recovery (null while ongoing).
+  declineBars: number;
+  recoveryBars: number | null;
+}
+
+// Every peak-to-recovery episode below a running peak, deepest first. The last episode is
+// ongoing (recoveryIndex null) when the series ends under water.
+export const drawdownEpisodes = (values: number[]): DrawdownEpisode[] => {
+  const episodes: DrawdownEpisode[] = [];
+  let peakIndex = 0;
+  let current: DrawdownEpisode | null = null;
+  values.forEach((v, i) => {
+    if (v >= values[peakIndex]) {
+      if (current) {
+        current.recoveryIndex = i;
+        current.recoveryBars = i - current.troughIndex;
+        episodes.push(current);
+        current = null;
+      }
+      peakIndex = i;
+      return;
+    }
+    const depth = values[peakIndex] > 0 ? v / values[peakIndex] - 1 : 0;
+    if (!current) {
+      current = { depth, peakIndex, troughIndex: i, recoveryIndex: null, declineBars: i - peakIndex, recoveryBars: null };
+    } else if (depth < current.depth) {
+      current.depth = depth;
+      current.troughIndex = i;
+      current.declineBars = i - peakIndex;
+    }
+  });
+  if (current) episodes.push(current);
+  return episodes.sort((a, b) => a.depth - b.depth);
+};
+
+const MS_PER_YEAR = 365.25 * 86_400_000;
+
+// Compound annual growth rate over the calendar time between the first and last dates.
+export const cagr = (values: number[], dates: string[]): number => {
+  if (values.length < 2 || values[0] <= 0 || values[values.length - 1] <= 0) return 0;
+  const years = (parseBarTime(dates[dates.length - 1]).getTime() - parseBarTime(dates[0]).getTime()) / MS_PER_YEAR;
+  return years > 0 ? (values[values.length - 1] / values[0]) ** (1 / years) - 1 : 0;
+};
+
+// Per-bar rate equivalent to an annual risk-free rate.
+const perBarRate = (annualRate: number, periodsPerYear: number) => (1 + annualRate) ** (1 / periodsPerYear) - 1;
+
+// Annualized mean excess return over annualized volatility of per-bar simple returns.
+export const sharpeRatio = (returns: number[], annualRiskFree: number, periodsPerYear: number): number | null => {
+  const rf = perBarRate(annualRiskFree, periodsPerYear);
+  const sd = stdDev(returns);
+  return sd > 0 ? ((mean(returns) - rf) / sd) * Math.sqrt(periodsPerYear) : null;
+};
+
+// Like Sharpe, but only returns below the risk-free rate count as risk (downside deviation).
+export const sortinoRatio = (returns: number[], annualRiskFree: number, periodsPerYear: number): number | null => {
+  if (returns.length === 0) return null;
+  const rf = perBarRate(annualRiskFree, periodsPerYear);
+  const downside = Math.sqrt(mean(returns.map(r => Math.min(0, r - rf) ** 2)));
+  return downside > 0 ? ((mean(returns) - rf) / downside) * Math.sqrt(periodsPerYear) : null;
+};
+
+// Trailing `window`-bar returns; entry i covers bars i - window .. i (null until enough bars).
+export const rollingReturns = (values: number[], window: number): (number | null)[] =>
+  values.map((v, i) => (i < window || values[i - window] === 0 ? null : v / values[i - window] - 1));
+
+export interface PerformanceStats {
+  totalReturn: number;
+  cagr: number;
+  volatility: number;
+  sharpe: number | null;
+  sortino: number | null;
+  calmar: number | null;
+  maxDrawdown: Drawdown;
+  best: { date: string; value: number } | null;
+  worst: { date: string; value: number } | null;
+  positiveShare: number;
+  periods: number;
+}
+
+// Statistics of a value series sampled at `dates` (both oldest first). `periodsPerYear`
+// annualizes per-bar figures; CAGR uses calendar time so it is interval-independent.
+export const computePerformanceStats = (
+  values: number[],
+  dates: string[],
+  periodsPerYear: number,
+  annualRiskFree: number
+): PerformanceStats => {
+  const returns = simpleReturns(values);
+  const drawdown = maxDrawdown(values);
+  const growth = cagr(values, dates);
+  let best: PerformanceStats['best'] = null;
+  let worst: PerformanceStats['worst'] = null;
+  returns.forEach((r, i) => {
+    if (!best || r > best.value) best = { date: dates[i + 1], value: r };
+    if (!worst || r < worst.value) worst = { date: dates[i + 1], value: r };
+  });
+  return {
+    totalReturn: totalReturn(values),
+    cagr: growth,
+    volatility: annualizedVolatility(values, periodsPerYear),
+    sharpe: sharpeRatio(returns, annualRiskFree, periodsPerYear),
+    sortino: sortinoRatio(returns, annualRiskFree, periodsPerYear),
+    calmar: drawdown.depth < 0 ? growth / Math.abs(drawdown.depth) : null,
+    maxDrawdown: drawdown,
+    best,
+    worst,
+    positiveShare: returns.length > 0 ? returns.filter(r => r > 0).length / returns.length : 0,
+    periods: returns.length,
+  };
+};
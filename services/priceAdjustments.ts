@@ -0,0 +1,63 @@
+import { CorporateActions, StockData } from '../types';
+
+// Which close a return is computed from: split-adjusted price only, or split-adjusted price
+// with dividends reinvested.
+export type ReturnBasis = 'price' | 'total';
+
+export const RETURN_BASIS_OPTIONS: { value: ReturnBasis; label: string }[] = [
+  { value: 'price', label: 'Price Return' },
+  { value: 'total', label: 'Total Return' },
+];
+
+const toTime = (date: string) => new Date(date).getTime();
+
+// Index of the first bar on or after `date`, or -1 when the event is after the last bar.
+const firstBarOnOrAfter = (history: StockData[], date: string): number => {
+  const time = toTime(date);
+  return history.findIndex(bar => toTime(bar.Date) >= time);
+};
+
+// A split is treated as already adjusted upstream unless the raw closes around it jump by
+// roughly the split ratio (closer to the ratio than to no move at all, in log terms).
+const isUnadjustedSplit = (before: number, after: number, ratio: number): boolean => {
+  if (before <= 0 || after <= 0 || ratio <= 0 || ratio === 1) return false;
+  const move = Math.log(before / after);
+  return Math.abs(move - Math.log(ratio)) < Math.abs(move);
+};
+
+// Adds `PriceReturnClose` (split-adjusted) and `TotalReturnClose` (split- and
+// dividend-adjusted) to ascending `history`. Both are back-adjusted, so the latest bar
+// keeps its raw close. Dividend amounts are taken to be in the same units as the raw
+// close on the day before the ex-date.
+export const applyCorporateActions = (history: StockData[], actions: CorporateActions): StockData[] => {
+  const n = history.length;
+  if (n === 0) return history;
+
+  const splitFactors = new Array(n).fill(1);
+  Object.entries(actions.splits).forEach(([date, ratio]) => {
+    const k = firstBarOnOrAfter(history, date);
+    if (k <= 0 || !isUnadjustedSplit(history[k - 1].Close, history[k].Close, ratio)) return;
+    for (let i = 0; i < k; i++) splitFactors[i] /= ratio;
+  });
+
+  const dividendFactors = new Array(n).fill(1);
+  Object.entries(actions.dividends).forEach(([date, amount]) => {
+    const k = firstBarOnOrAfter(history, date);
+    if (k <= 0 || amount <= 0) return;
+    const previousClose = history[k - 1].Close;
+    if (previousClose <= amount) return;
+    const factor = 1 - amount / previousClose;
+    for (let i = 0; i < k; i++) dividendFactors[i] *= factor;
+  });
+
+  return history.map((bar, i) => ({
+    ...bar,
+    PriceReturnClose: bar.Close * splitFactors[i],
+    TotalReturnClose: bar.Close * splitFactors[i] * dividendFactors[i],
+  }));
+};
+
+// The close a return should be computed from for the chosen basis. Falls back to the raw
+// close for histories that were never adjusted.
+export const basisClose = (bar: StockData, basis: ReturnBasis): number =>
+  (basis === 'total' ? bar.TotalReturnClose : bar.PriceReturnClose) ?? bar.Close;
@@ -0,0 +1,136 @@
+// Persistent IndexedDB cache for provider responses. Every helper degrades to a no-op
+// when IndexedDB is unavailable (private browsing, blocked storage) so fetching still works.
+
+import { todayIso } from '../utils/dateRange';
+import { isIntradayInterval } from './marketSessions';
+
+export interface CacheEntry {
+  key: string;
+  provider: string;
+  ticker: string;
+  dataType: string;
+  period: string;
+  interval: string;
+  data: any;
+  storedAt: number;
+}
+
+export type CacheKeyParts = Omit<CacheEntry, 'key' | 'data' | 'storedAt'>;
+
+const DB_NAME = 'equity-explorer-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// How long an entry counts as fresh, per data type. History TTLs depend on the bar size.
+const TTL_BY_DATA_TYPE: { [dataType: string]: number } = {
+  info: DAY,
+  news: 15 * MINUTE,
+  actions: DAY,
+  financials: 7 * DAY,
+  recommendations: DAY,
+  holders: 7 * DAY,
+};
+const INTRADAY_HISTORY_TTL = 5 * MINUTE;
+const DAILY_HISTORY_TTL = 12 * HOUR;
+const CLOSED_RANGE_HISTORY_TTL = 30 * DAY;
+const DEFAULT_TTL = HOUR;
+
+// Beyond this age an entry is no longer served while revalidating; it is only used as a
+// fallback when the network request fails.
+export const MAX_STALE_AGE = 30 * DAY;
+
+// Explicit history windows are keyed as `start..end`; one that ended before today can
+// no longer change.
+const isClosedRange = (period: string) => {
+  const end = period.split('..')[1];
+  return !!end && end < todayIso();
+};
+
+export const getTtl = (dataType: string, interval: string, period = ''): number => {
+  if (dataType === 'history') {
+    if (isClosedRange(period)) return CLOSED_RANGE_HISTORY_TTL;
+    // Extended-hours requests are keyed as e.g. `5m+prepost`.
+    return isIntradayInterval(interval.split('+')[0]) ? INTRADAY_HISTORY_TTL : DAILY_HISTORY_TTL;
+  }
+  return TTL_BY_DATA_TYPE[dataType] ?? DEFAULT_TTL;
+};
+
+export const buildCacheKey = ({ provider, ticker, dataType, period, interval }: CacheKeyParts): string =>
+  [provider, ticker, dataType, period, interval].join('|');
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Response cache unavailable:', request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.warn('Response cache unavailable:', error);
+      resolve(null);
+    }
+  });
+  return dbPromise;
+};
+
+const runRequest = async <T,>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> => {
+  const db = await openDb();
+  if (!db) return undefined;
+  return new Promise(resolve => {
+    try {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Response cache operation failed:', request.error);
+        resolve(undefined);
+      };
+    } catch (error) {
+      console.warn('Response cache operation failed:', error);
+      resolve(undefined);
+    }
+  });
+};
+
+export const readCacheEntry = async (key: string): Promise<CacheEntry | undefined> =>
+  runRequest<CacheEntry>('readonly', store => store.get(key));
+
+export const writeCacheEntry = async (parts: CacheKeyParts, data: any): Promise<CacheEntry> => {
+  const entry: CacheEntry = { ...parts, key: buildCacheKey(parts), data, storedAt: Date.now() };
+  await runRequest('readwrite', store => store.put(entry));
+  return entry;
+};
+
+export const listCacheEntries = async (): Promise<CacheEntry[]> => {
+  const entries = await runRequest<CacheEntry[]>('readonly', store => store.getAll());
+  return (entries || []).sort((a, b) => b.storedAt - a.storedAt);
+};
+
+export const deleteCacheEntry = async (key: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(key));
+};
+
+export const clearCache = async (): Promise<void> => {
+  await runRequest('readwrite', store => store.clear());
+};
@@ -0,0 +1,342 @@
+// Runtime validation and normalization of provider payloads. Malformed fields are coerced
+// or dropped and reported as warnings; a payload is never rejected outright, so views
+// render whatever is usable instead of crashing on an unexpected shape.
+
+import {
+  CompanyOfficer,
+  CompanyProfile,
+  CorporateActions,
+  DataPayloads,
+  DataType,
+  FinancialStatementRow,
+  FinancialStatements,
+  FundHolder,
+  HoldersData,
+  MajorHolder,
+  NewsArticle,
+  NewsFeed,
+  NewsThumbnailResolution,
+  Recommendation,
+  StockData,
+  ValidationWarning,
+} from '../types';
+
+export interface ValidationResult<T> {
+  data: T;
+  warnings: ValidationWarning[];
+}
+
+interface WarningCollector {
+  add: (field: string, message: string) => void;
+  list: () => ValidationWarning[];
+}
+
+const createWarningCollector = (): WarningCollector => {
+  const warnings = new Map<string, ValidationWarning>();
+  return {
+    add: (field, message) => {
+      const key = `${field}|${message}`;
+      const existing = warnings.get(key);
+      if (existing) existing.count++;
+      else warnings.set(key, { field, message, count: 1 });
+    },
+    list: () => Array.from(warnings.values()),
+  };
+};
+
+const isRecord = (value: unknown): value is { [key: string]: any } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accepts numbers and numeric strings; anything else is reported and becomes undefined.
+const toNumber = (value: unknown, field: string, warnings: WarningCollector): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const num = typeof value === 'string' ? Number(value) : value;
+  if (typeof num === 'number' && Number.isFinite(num)) return num;
+  warnings.add(field, `expected a number, got ${JSON.stringify(value)}`);
+  return undefined;
+};
+
+const toOptionalString = (value: unknown, field: string, warnings: WarningCollector): string | undefined => {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  warnings.add(field, `expected text, got ${typeof value}`);
+  return undefined;
+};
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+// --- Per data type ---
+
+const validateHistory = (raw: unknown, warnings: WarningCollector): StockData[] => {
+  if (!Array.isArray(raw)) {
+    warnings.add('history', 'expected a list of price bars');
+    return [];
+  }
+  const rows: StockData[] = [];
+  raw.forEach(row => {
+    if (!isRecord(row)) {
+      warnings.add('history[]', 'bar is not an object; dropped');
+      return;
+    }
+    if (!isValidDate(row.Date)) {
+      warnings.add('history[].Date', 'missing or unparseable date; bar dropped');
+      return;
+    }
+    const close = toNumber(row.Close, 'history[].Close', warnings);
+    if (close === undefined) {
+      warnings.add('history[].Close', 'missing close price; bar dropped');
+      return;
+    }
+    const { Date: date, Open, High, Low, Close, Volume, ...rest } = row;
+    rows.push({
+      ...rest,
+      Date: date,
+      Open: toNumber(Open, 'history[].Open', warnings) ?? close,
+      High: toNumber(High, 'history[].High', warnings) ?? close,
+      Low: toNumber(Low, 'history[].Low', warnings) ?? close,
+      Close: close,
+      Volume: toNumber(Volume, 'history[].Volume', warnings) ?? 0,
+    });
+  });
+  return rows;
+};
+
+const PROFILE_NUMBER_FIELDS = [
+  'marketCap', 'trailingPE', 'forwardPE', 'dividendYield', 'beta', 'fiftyTwoWeekHigh',
+  'fiftyTwoWeekLow', 'volume', 'overallRisk', 'boardRisk', 'compensationRisk', 'shareHolderRightsRisk',
+] as const;
+
+const PROFILE_STRING_FIELDS = [
+  'symbol', 'longName', 'sector', 'industry', 'website', 'longBusinessSummary', 'currency', 'exchangeTimezoneName',
+  'address1', 'city', 'state', 'zip', 'country', 'phone',
+] as const;
+
+const validateInfo = (raw: unknown, warnings: WarningCollector): CompanyProfile => {
+  if (!isRecord(raw)) {
+    warnings.add('info', 'expected a company profile object');
+    return {};
+  }
+  const profile: CompanyProfile = { ...raw };
+  PROFILE_NUMBER_FIELDS.forEach(field => {
+    profile[field] = toNumber(raw[field], `info.${field}`, warnings);
+  });
+  PROFILE_STRING_FIELDS.forEach(field => {
+    profile[field] = toOptionalString(raw[field], `info.${field}`, warnings);
+  });
+  if (raw.companyOfficers !== undefined) {
+    if (Array.isArray(raw.companyOfficers)) {
+      profile.companyOfficers = raw.companyOfficers.filter(isRecord).map((officer): CompanyOfficer => ({
+        ...officer,
+        name: toOptionalString(officer.name, 'info.companyOfficers[].name', warnings),
+        title: toOptionalString(officer.title, 'info.companyOfficers[].title', warnings),
+      }));
+    } else {
+      warnings.add('info.companyOfficers', 'expected a list; ignored');
+      profile.companyOfficers = [];
+    }
+  }
+  return profile;
+};
+
+const validateThumbnail = (raw: unknown, warnings: WarningCollector): NewsArticle['content']['thumbnail'] => {
+  if (!isRecord(raw)) return undefined;
+  if (!Array.isArray(raw.resolutions)) {
+    warnings.add('news[].content.thumbnail.resolutions', 'expected a list; thumbnail ignored');
+    return undefined;
+  }
+  const resolutions: NewsThumbnailResolution[] = raw.resolutions
+    .filter((r: unknown) => isRecord(r) && typeof r.url === 'string')
+    .map((r: any) => ({ url: r.url, width: Number(r.width) || 0, height: Number(r.height) || 0 }));
+  return resolutions.length > 0 ? { resolutions } : undefined;
+};
+
+const validateNews = (raw: unknown, warnings: WarningCollector): NewsFeed => {
+  const items = Array.isArray(raw) ? raw : isRecord(raw) ? raw.news : undefined;
+  if (!Array.isArray(items)) {
+    warnings.add('news', 'expected a list of articles');
+    return { news: [] };
+  }
+  const news: NewsArticle[] = [];
+  items.forEach((article, i) => {
+    const content = isRecord(article) ? article.content : undefined;
+    if (!isRecord(content) || typeof content.title !== 'string' || !content.title.trim()) {
+      warnings.add('news[].content.title', 'article without a title; dropped');
+      return;
+    }
+    const pubDate = toOptionalString(content.pubDate, 'news[].content.pubDate', warnings);
+    if (pubDate !== undefined && !isValidDate(pubDate)) warnings.add('news[].content.pubDate', 'unparseable date');
+    news.push({
+      id: toOptionalString(article.id, 'news[].id', warnings) ?? `article-${i}`,
+      content: {
+        title: content.title,
+        summary: toOptionalString(content.summary, 'news[].content.summary', warnings),
+        pubDate: pubDate !== undefined && isValidDate(pubDate) ? pubDate : undefined,
+        provider: isRecord(content.provider)
+          ? { displayName: toOptionalString(content.provider.displayName, 'news[].content.provider.displayName', warnings) }
+          : undefined,
+        canonicalUrl: isRecord(content.canonicalUrl)
+          ? { url: toOptionalString(content.canonicalUrl.url, 'news[].content.canonicalUrl.url', warnings) }
+          : undefined,
+        thumbnail: validateThumbnail(content.thumbnail, warnings),
+      },
+    });
+  });
+  return { news };
+};
+
+const validateDatedNumbers = (raw: unknown, field: string, warnings: WarningCollector): { [date: string]: number } => {
+  if (raw === undefined || raw === null) return {};
+  if (!isRecord(raw)) {
+    warnings.add(field, 'expected a date-to-value map; ignored');
+    return {};
+  }
+  const result: { [date: string]: number } = {};
+  Object.entries(raw).forEach(([date, value]) => {
+    if (!isValidDate(date)) {
+      warnings.add(field, 'entry with an unparseable date; dropped');
+      return;
+    }
+    const num = toNumber(value, `${field}[date]`, warnings);
+    if (num !== undefined) result[date] = num;
+  });
+  return result;
+};
+
+const validateActions = (raw: unknown, warnings: WarningCollector): CorporateActions => {
+  if (!isRecord(raw)) {
+    warnings.add('actions', 'expected dividends and splits');
+    return { dividends: {}, splits: {} };
+  }
+  return {
+    dividends: validateDatedNumbers(raw.dividends, 'actions.dividends', warnings),
+    splits: validateDatedNumbers(raw.splits, 'actions.splits', warnings),
+  };
+};
+
+const validateStatement = (raw: unknown, field: string, warnings: WarningCollector): FinancialStatementRow[] => {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    warnings.add(field, 'expected a list of line items; ignored');
+    return [];
+  }
+  const rows: FinancialStatementRow[] = [];
+  raw.forEach(row => {
+    if (!isRecord(row) || typeof row.index !== 'string') {
+      warnings.add(`${field}[].index`, 'line item without a name; dropped');
+      return;
+    }
+    const normalized: FinancialStatementRow = { index: row.index };
+    Object.entries(row).forEach(([key, value]) => {
+      if (key === 'index') return;
+      normalized[key] = toNumber(value, `${field}[].${row.index}`, warnings) ?? null;
+    });
+    rows.push(normalized);
+  });
+  return rows;
+};
+
+const validateFinancials = (raw: unknown, warnings: WarningCollector): FinancialStatements => {
+  if (!isRecord(raw)) {
+    warnings.add('financials', 'expected income, balance sheet and cash flow statements');
+    return { income: [], balance_sheet: [], cashflow: [] };
+  }
+  return {
+    income: validateStatement(raw.income, 'financials.income', warnings),
+    balance_sheet: validateStatement(raw.balance_sheet, 'financials.balance_sheet', warnings),
+    cashflow: validateStatement(raw.cashflow, 'financials.cashflow', warnings),
+  };
+};
+
+const RECOMMENDATION_COUNTS = ['strongBuy', 'buy', 'hold', 'sell', 'strongSell'] as const;
+
+const validateRecommendations = (raw: unknown, warnings: WarningCollector): Recommendation[] => {
+  if (!Array.isArray(raw)) {
+    warnings.add('recommendations', 'expected a list of rating periods');
+    return [];
+  }
+  const recs: Recommendation[] = [];
+  raw.forEach(rec => {
+    if (!isRecord(rec) || typeof rec.period !== 'string') {
+      warnings.add('recommendations[].period', 'entry without a period; dropped');
+      return;
+    }
+    const normalized = { period: rec.period } as Recommendation;
+    RECOMMENDATION_COUNTS.forEach(key => {
+      normalized[key] = toNumber(rec[key], `recommendations[].${key}`, warnings) ?? 0;
+    });
+    recs.push(normalized);
+  });
+  return recs;
+};
+
+const validateFundHolders = (raw: unknown, field: string, warnings: WarningCollector): FundHolder[] | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw)) {
+    warnings.add(field, 'expected a list of holders; ignored');
+    return undefined;
+  }
+  const holders: FundHolder[] = [];
+  raw.forEach(holder => {
+    if (!isRecord(holder) || typeof holder.Holder !== 'string') {
+      warnings.add(`${field}[].Holder`, 'holder without a name; dropped');
+      return;
+    }
+    const reported = holder['Date Reported'];
+    holders.push({
+      ...holder,
+      Holder: holder.Holder,
+      Shares: toNumber(holder.Shares, `${field}[].Shares`, warnings),
+      'Date Reported': isValidDate(reported) ? reported : undefined,
+      pctHeld: toNumber(holder.pctHeld, `${field}[].pctHeld`, warnings),
+      Value: toNumber(holder.Value, `${field}[].Value`, warnings),
+      pctChange: toNumber(holder.pctChange, `${field}[].pctChange`, warnings),
+    });
+  });
+  return holders;
+};
+
+const validateHolders = (raw: unknown, warnings: WarningCollector): HoldersData => {
+  if (!isRecord(raw)) {
+    warnings.add('holders', 'expected major, institutional and mutual fund holders');
+    return {};
+  }
+  let major: MajorHolder[] | undefined;
+  if (Array.isArray(raw.major)) {
+    major = [];
+    raw.major.forEach((item: unknown) => {
+      const value = isRecord(item) ? toNumber(item.Value, 'holders.major[].Value', warnings) : undefined;
+      if (!isRecord(item) || typeof item.index !== 'string' || value === undefined) {
+        warnings.add('holders.major[]', 'malformed breakdown entry; dropped');
+        return;
+      }
+      major!.push({ index: item.index, Value: value });
+    });
+  } else if (raw.major !== undefined && raw.major !== null) {
+    warnings.add('holders.major', 'expected a list; ignored');
+  }
+  return {
+    major,
+    institutional: validateFundHolders(raw.institutional, 'holders.institutional', warnings),
+    mutualfund: validateFundHolders(raw.mutualfund, 'holders.mutualfund', warnings),
+  };
+};
+
+const VALIDATORS: { [K in DataType]: (raw: unknown, warnings: WarningCollector) => DataPayloads[K] } = {
+  history: validateHistory,
+  info: validateInfo,
+  news: validateNews,
+  actions: validateActions,
+  financials: validateFinancials,
+  recommendations: validateRecommendations,
+  holders: validateHolders,
+};
+
+export const validateResponse = <K extends DataType>(dataType: K, raw: unknown): ValidationResult<DataPayloads[K]> => {
+  const validator = VALIDATORS[dataType];
+  if (!validator) throw new Error(`Unsupported data type '${dataType}'.`);
+  const warnings = createWarningCollector();
+  const data = validator(raw, warnings);
+  return { data, warnings: warnings.list() };
+};
@@ -0,0 +1,119 @@
+// Distribution diagnostics for a return series: moments, fitted normal and Student-t,
+// histogram and QQ data, and the Jarque-Bera and Ljung-Box tests.
+
+import { chiSquareSurvival, normalQuantile, studentTPdf } from './statistics';
+
+export interface TestResult {
+  statistic: number;
+  pValue: number;
+  df: number;
+}
+
+export interface StudentTFit {
+  df: number;
+  loc: number;
+  scale: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface ReturnDiagnostics {
+  count: number;
+  mean: number;
+  stdDev: number;
+  skewness: number;
+  excessKurtosis: number;
+  jarqueBera: TestResult;
+  // Autocorrelation of returns (serial dependence) and of squared returns (volatility clustering).
+  ljungBox: TestResult;
+  ljungBoxSquared: TestResult;
+  studentT: StudentTFit;
+  histogram: HistogramBin[];
+  // Sorted standardized returns against standard normal quantiles.
+  qq: { theoretical: number; sample: number }[];
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+export const jarqueBera = (n: number, skewness: number, excessKurtosis: number): TestResult => {
+  const statistic = (n / 6) * (skewness ** 2 + excessKurtosis ** 2 / 4);
+  return { statistic, pValue: chiSquareSurvival(statistic, 2), df: 2 };
+};
+
+// Ljung-Box Q over the first `lags` autocorrelations; chi-square with `lags` degrees of freedom.
+export const ljungBox = (values: number[], lags: number): TestResult => {
+  const n = values.length;
+  const m = mean(values);
+  const denominator = values.reduce((acc, v) => acc + (v - m) ** 2, 0);
+  let statistic = 0;
+  for (let k = 1; k <= lags && k < n; k++) {
+    let numerator = 0;
+    for (let t = k; t < n; t++) numerator += (values[t] - m) * (values[t - k] - m);
+    const rho = denominator > 0 ? numerator / denominator : 0;
+    statistic += (rho * rho) / (n - k);
+  }
+  statistic *= n * (n + 2);
+  return { statistic, pValue: chiSquareSurvival(statistic, lags), df: lags };
+};
+
+// Maximum-likelihood degrees of freedom on a grid, with the scale set so the fitted variance
+// matches the sample variance.
+export const fitStudentT = (values: number[], loc: number, sd: number): StudentTFit => {
+  let best: StudentTFit = { df: 30, loc, scale: sd };
+  let bestLogLik = -Infinity;
+  for (let df = 2.2; df <= 60; df += df < 10 ? 0.1 : 1) {
+    const scale = sd * Math.sqrt((df - 2) / df);
+    const logLik = values.reduce((acc, v) => acc + Math.log(studentTPdf(v, df, loc, scale) || 1e-300), 0);
+    if (logLik > bestLogLik) {
+      bestLogLik = logLik;
+      best = { df: Number(df.toFixed(1)), loc, scale };
+    }
+  }
+  return best;
+};
+
+const buildHistogram = (values: number[], binCount: number): HistogramBin[] => {
+  const min = Math.min(...values), max = Math.max(...values);
+  const width = (max - min) / binCount || 1;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  values.forEach(v => { bins[Math.min(binCount - 1, Math.floor((v - min) / width))].count++; });
+  return bins;
+};
+
+export const diagnoseReturns = (returns: number[], lags = 10): ReturnDiagnostics => {
+  const n = returns.length;
+  if (n < lags + 2) throw new Error(`At least ${lags + 2} returns are needed for distribution diagnostics.`);
+  const m = mean(returns);
+  const centered = returns.map(r => r - m);
+  const m2 = mean(centered.map(c => c ** 2));
+  const m3 = mean(centered.map(c => c ** 3));
+  const m4 = mean(centered.map(c => c ** 4));
+  const stdDev = Math.sqrt(m2 * n / (n - 1));
+  // Flat prices leave nothing to fit: the densities and QQ quantiles would divide by zero.
+  if (!(stdDev > 0)) throw new Error('Not enough variation in the returns for distribution diagnostics (every return is the same).');
+  const skewness = m2 > 0 ? m3 / m2 ** 1.5 : 0;
+  const excessKurtosis = m2 > 0 ? m4 / (m2 * m2) - 3 : 0;
+  const sorted = [...returns].sort((a, b) => a - b);
+
+  return {
+    count: n,
+    mean: m,
+    stdDev,
+    skewness,
+    excessKurtosis,
+    jarqueBera: jarqueBera(n, skewness, excessKurtosis),
+    ljungBox: ljungBox(returns, lags),
+    ljungBoxSquared: ljungBox(centered.map(c => c * c), lags),
+    studentT: fitStudentT(returns, m, stdDev),
+    // Square-root rule, kept between 10 and 60 bins.
+    histogram: buildHistogram(returns, Math.max(10, Math.min(60, Math.round(Math.sqrt(n))))),
+    qq: sorted.map((v, i) => ({
+      theoretical: normalQuantile((i + 0.5) / n),
+      sample: (v - m) / stdDev,
+    })),
+  };
+};
@@ -0,0 +1,330 @@
+// VaR / Expected Shortfall estimators for a portfolio of daily asset returns: historical
+// simulation, filtered historical simulation, variance-covariance (normal and Student-t) and
+// Monte Carlo from the covariance matrix. Losses are returned as positive fractions of
+// portfolio value.
+
+import { fitStudentT } from './returnDiagnostics';
+import { normalPdf, normalQuantile, studentTPdf, studentTQuantile } from './statistics';
+import { FilteredReturns, filterReturns, nextVariance, VolatilityFilterOptions } from './volatilityModels';
+
+export type VaRMethod = 'historical' | 'filtered_historical' | 'normal' | 'student_t' | 'monte_carlo';
+
+export const VAR_METHOD_OPTIONS: { value: VaRMethod; label: string }[] = [
+  { value: 'historical', label: 'Historical Simulation' },
+  { value: 'filtered_historical', label: 'Filtered Historical Simulation' },
+  { value: 'normal', label: 'Variance-Covariance (Normal)' },
+  { value: 'student_t', label: 'Variance-Covariance (Student-t)' },
+  { value: 'monte_carlo', label: 'Monte Carlo' },
+];
+
+export interface VaREstimate {
+  var: number;
+  es: number;
+}
+
+export interface MethodEstimate extends VaREstimate {
+  method: VaRMethod;
+  // Model detail shown next to the method, e.g. "df 4.3" or "10,000 paths, seed 42".
+  detail?: string;
+}
+
+export interface MonteCarloOptions {
+  paths: number;
+  seed: number;
+}
+
+export const calculateVaRAndES = (portfolioReturns: number[], confidenceLevel: number): VaREstimate => {
+  if (portfolioReturns.length === 0) return { var: 0, es: 0 };
+
+  const sortedReturns = [...portfolioReturns].sort((a, b) => a - b);
+  const alpha = 1 - (confidenceLevel / 100);
+  const index = Math.floor(alpha * sortedReturns.length);
+
+  const VaR = sortedReturns[index] || 0;
+  const tailReturns = sortedReturns.slice(0, index);
+  const ES = tailReturns.length > 0
+    ? tailReturns.reduce((sum, r) => sum + r, 0) / tailReturns.length
+    : VaR;
+
+  return { var: -VaR, es: -ES };
+};
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// Average of each component over the days in the tail of `total` (the same days
+// calculateVaRAndES averages), as a positive loss. Components must be aligned with `total`.
+export const tailContributions = (
+  total: number[],
+  components: number[][],
+  confidenceLevel: number
+): number[] => {
+  if (total.length === 0) return components.map(() => 0);
+  const order = total.map((_, i) => i).sort((a, b) => total[a] - total[b]);
+  const index = Math.floor((1 - confidenceLevel / 100) * total.length);
+  const tail = index > 0 ? order.slice(0, index) : [order[0]];
+  return components.map(component => -tail.reduce((sum, i) => sum + component[i], 0) / tail.length);
+};
+
+// Sample covariance matrix of aligned return series (one array per asset).
+export const covarianceMatrix = (series: number[][]): number[][] => {
+  const means = series.map(mean);
+  const n = series[0]?.length ?? 0;
+  return series.map((a, i) => series.map((b, j) => {
+    let sum = 0;
+    for (let t = 0; t < n; t++) sum += (a[t] - means[i]) * (b[t] - means[j]);
+    return n > 1 ? sum / (n - 1) : 0;
+  }));
+};
+
+// Lower-triangular L with L·Lᵀ = matrix. Columns with no remaining variance (perfectly
+// collinear assets) are left at zero instead of failing, so semi-definite matrices work.
+export const choleskyDecompose = (matrix: number[][]): number[][] => {
+  const n = matrix.length;
+  const L = matrix.map(() => new Array(n).fill(0));
+  for (let j = 0; j < n; j++) {
+    let diagonal = matrix[j][j];
+    for (let k = 0; k < j; k++) diagonal -= L[j][k] * L[j][k];
+    L[j][j] = diagonal > 1e-18 ? Math.sqrt(diagonal) : 0;
+    for (let i = j + 1; i < n; i++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      L[i][j] = L[j][j] > 0 ? sum / L[j][j] : 0;
+    }
+  }
+  return L;
+};
+
+// Deterministic uniform generator on [0, 1) (mulberry32), so a seed reproduces a run.
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal draws by Box-Muller.
+export const createNormalSampler = (random: () => number): (() => number) => {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    const u = 1 - random();
+    const v = random();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spare = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  };
+};
+
+// Portfolio mean and variance from per-asset return series and weights (w'μ, w'Σw).
+export const portfolioMoments = (assetReturns: number[][], weights: number[]) => {
+  const covariance = covarianceMatrix(assetReturns);
+  const mu = assetReturns.reduce((sum, series, i) => sum + weights[i] * mean(series), 0);
+  let variance = 0;
+  weights.forEach((wi, i) => weights.forEach((wj, j) => { variance += wi * wj * covariance[i][j]; }));
+  return { mu, sigma: Math.sqrt(Math.max(0, variance)) };
+};
+
+// Normal VaR/ES over `horizon` days: mean scales with time, volatility with its square root.
+export const normalVaRAndES = (mu: number, sigma: number, confidenceLevel: number, horizon: number): VaREstimate => {
+  const alpha = 1 - confidenceLevel / 100;
+  const z = normalQuantile(alpha);
+  const m = mu * horizon, s = sigma * Math.sqrt(horizon);
+  return { var: -(m + s * z), es: -(m - (s * normalPdf(z)) / alpha) };
+};
+
+// Student-t VaR/ES with the scale chosen so the distribution has standard deviation `sigma`.
+export const studentTVaRAndES = (mu: number, sigma: number, df: number, confidenceLevel: number, horizon: number): VaREstimate => {
+  const alpha = 1 - confidenceLevel / 100;
+  const q = studentTQuantile(alpha, df);
+  const m = mu * horizon, s = sigma * Math.sqrt(horizon) * Math.sqrt((df - 2) / df);
+  const tailMean = (studentTPdf(q, df) / alpha) * ((df + q * q) / (df - 1));
+  return { var: -(m + s * q), es: -(m - s * tailMean) };
+};
+
+// Simulates `paths` buy-and-hold horizons of correlated normal daily asset returns drawn
+// from the sample mean and covariance, and reads VaR/ES off the simulated portfolio returns.
+export const monteCarloReturns = (
+  assetReturns: number[][],
+  weights: number[],
+  horizon: number,
+  { paths, seed }: MonteCarloOptions
+): number[] => {
+  const k = assetReturns.length;
+  const means = assetReturns.map(mean);
+  const L = choleskyDecompose(covarianceMatrix(assetReturns));
+  const nextNormal = createNormalSampler(createRandom(seed));
+  const shocks = new Array(k).fill(0);
+  const growth = new Array(k).fill(1);
+  const results: number[] = [];
+  for (let p = 0; p < paths; p++) {
+    growth.fill(1);
+    for (let day = 0; day < horizon; day++) {
+      for (let i = 0; i < k; i++) shocks[i] = nextNormal();
+      for (let i = 0; i < k; i++) {
+        let r = means[i];
+        for (let j = 0; j <= i; j++) r += L[i][j] * shocks[j];
+        growth[i] *= 1 + r;
+      }
+    }
+    results.push(weights.reduce((sum, w, i) => sum + w * (growth[i] - 1), 0));
+  }
+  return results;
+};
+
+// Filtered historical simulation. Each asset's returns are divided by their conditional
+// volatility and the residuals rescaled by the forecast for the next day, so the tail reflects
+// today's volatility rather than the window's average. One day uses every residual date as a
+// scenario; longer horizons bootstrap residual dates (the same date for all assets, keeping
+// their co-movement) and update each asset's variance along the path, buy-and-hold.
+export const filteredHistoricalReturns = (
+  filtered: FilteredReturns[],
+  weights: number[],
+  horizon: number,
+  { paths, seed }: MonteCarloOptions
+): number[] => {
+  const n = filtered[0]?.residuals.length ?? 0;
+  if (n === 0) return [];
+  if (horizon === 1) {
+    return Array.from({ length: n }, (_, t) =>
+      filtered.reduce((sum, f, i) => sum + weights[i] * f.residuals[t] * Math.sqrt(f.forecast), 0));
+  }
+  const random = createRandom(seed);
+  const variances = filtered.map(f => f.forecast);
+  const growth = filtered.map(() => 1);
+  const results: number[] = [];
+  for (let p = 0; p < paths; p++) {
+    filtered.forEach((f, i) => { variances[i] = f.forecast; growth[i] = 1; });
+    for (let day = 0; day < horizon; day++) {
+      const t = Math.floor(random() * n);
+      filtered.forEach((f, i) => {
+        const r = f.residuals[t] * Math.sqrt(variances[i]);
+        growth[i] *= 1 + r;
+        variances[i] = nextVariance(f.params, r, variances[i]);
+      });
+    }
+    results.push(weights.reduce((sum, w, i) => sum + w * (growth[i] - 1), 0));
+  }
+  return results;
+};
+
+const standardDeviation = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / Math.max(1, values.length - 1));
+};
+
+// Every method on the same inputs. `assetReturns` are the aligned daily returns per asset and
+// `portfolioReturns` the matching daily portfolio returns. Historical VaR is scaled to the
+// horizon by the square root of time.
+export const estimateAllMethods = (
+  assetReturns: number[][],
+  weights: number[],
+  portfolioReturns: number[],
+  confidenceLevel: number,
+  horizon: number,
+  monteCarlo: MonteCarloOptions,
+  volatilityFilter: VolatilityFilterOptions
+): MethodEstimate[] => {
+  const scale = Math.sqrt(horizon);
+  const historical = calculateVaRAndES(portfolioReturns, confidenceLevel);
+  const filtered = assetReturns.map(series => filterReturns(series, volatilityFilter));
+  const filteredOneDay = filteredHistoricalReturns(filtered, weights, 1, monteCarlo);
+  const filteredScenarios = horizon === 1 ? filteredOneDay : filteredHistoricalReturns(filtered, weights, horizon, monteCarlo);
+  // Current portfolio volatility relative to the window's.
+  const volatilityRatio = standardDeviation(filteredOneDay) / standardDeviation(portfolioReturns);
+  const filterLabel = volatilityFilter.model === 'garch' ? 'GARCH(1,1)' : `EWMA λ ${volatilityFilter.lambda}`;
+  const { mu, sigma } = portfolioMoments(assetReturns, weights);
+  const { df } = fitStudentT(portfolioReturns, mean(portfolioReturns), sigma);
+  const simulated = monteCarloReturns(assetReturns, weights, horizon, monteCarlo);
+  return [
+    { method: 'historical', var: historical.var * scale, es: historical.es * scale, detail: `${portfolioReturns.length} days` },
+    {
+      method: 'filtered_historical',
+      ...calculateVaRAndES(filteredScenarios, confidenceLevel),
+      detail: `${filterLabel}, vol ×${volatilityRatio.toFixed(2)}${horizon > 1 ? `, ${monteCarlo.paths.toLocaleString()} paths` : ''}`,
+    },
+    { method: 'normal', ...normalVaRAndES(mu, sigma, confidenceLevel, horizon) },
+    { method: 'student_t', ...studentTVaRAndES(mu, sigma, df, confidenceLevel, horizon), detail: `df ${df}` },
+    {
+      method: 'monte_carlo',
+      ...calculateVaRAndES(simulated, confidenceLevel),
+      detail: `${monteCarlo.paths.toLocaleString()} paths, seed ${monteCarlo.seed}`,
+    },
+  ];
+};
+
+export interface PositionRisk {
+  ticker: string;
+  weight: number;
+  // VaR of the position held on its own, as a fraction of portfolio value.
+  standaloneVar: number;
+  // VaR change per unit of weight (component VaR / weight).
+  marginalVar: number;
+  // Euler allocations; they add up to the portfolio VaR and ES.
+  componentVar: number;
+  componentEs: number;
+  // Portfolio VaR minus the VaR with this position removed (other weights unchanged).
+  incrementalVar: number;
+}
+
+export interface RiskDecomposition {
+  positions: PositionRisk[];
+  totalVar: number;
+  totalEs: number;
+  // Sum of standalone VaRs minus the portfolio VaR.
+  diversificationBenefit: number;
+}
+
+// Per-position breakdown of historical VaR/ES, scaled to `horizon` days by the square root of
+// time. Component ES averages each position over the portfolio's tail days; component VaR
+// averages it over the days ranked next to the VaR day (a single day is too noisy) and is
+// scaled so the components add up to the portfolio VaR.
+export const decomposeHistoricalRisk = (
+  tickers: string[],
+  assetReturns: number[][],
+  weights: number[],
+  confidenceLevel: number,
+  horizon: number
+): RiskDecomposition => {
+  const scale = Math.sqrt(horizon);
+  const n = assetReturns[0]?.length ?? 0;
+  const positionReturns = assetReturns.map((series, i) => series.map(r => r * weights[i]));
+  const portfolio = Array.from({ length: n }, (_, t) => positionReturns.reduce((sum, series) => sum + series[t], 0));
+  const total = calculateVaRAndES(portfolio, confidenceLevel);
+
+  const order = portfolio.map((_, t) => t).sort((a, b) => portfolio[a] - portfolio[b]);
+  const varIndex = Math.floor((1 - confidenceLevel / 100) * n);
+  const spread = Math.max(1, Math.floor(0.005 * n));
+  const neighbourhood = order.slice(Math.max(0, varIndex - spread), Math.min(n, varIndex + spread + 1));
+  const rawVar = positionReturns.map(series => -neighbourhood.reduce((sum, t) => sum + series[t], 0) / neighbourhood.length);
+  const rawSum = rawVar.reduce((a, b) => a + b, 0);
+  const componentVar = rawVar.map(c => (rawSum !== 0 ? (c * total.var) / rawSum : 0));
+  const componentEs = tailContributions(portfolio, positionReturns, confidenceLevel);
+
+  const positions = tickers.map((ticker, i) => {
+    const without = portfolio.map((r, t) => r - positionReturns[i][t]);
+    return {
+      ticker,
+      weight: weights[i],
+      standaloneVar: calculateVaRAndES(positionReturns[i], confidenceLevel).var * scale,
+      marginalVar: weights[i] !== 0 ? (componentVar[i] / weights[i]) * scale : 0,
+      componentVar: componentVar[i] * scale,
+      componentEs: componentEs[i] * scale,
+      incrementalVar: (total.var - calculateVaRAndES(without, confidenceLevel).var) * scale,
+    };
+  });
+  const totalVar = total.var * scale;
+  return {
+    positions,
+    totalVar,
+    totalEs: total.es * scale,
+    diversificationBenefit: positions.reduce((sum, p) => sum + p.standaloneVar, 0) - totalVar,
+  };
+};
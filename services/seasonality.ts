@@ -0,0 +1,93 @@
+// Calendar seasonality of daily histories: returns per year x month, per-month statistics
+// and day-of-week effects.
+
+import { StockData } from '../types';
+import { basisClose, ReturnBasis } from './priceAdjustments';
+
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+
+export interface SeasonalityStats {
+  mean: number;
+  median: number;
+  // Share of periods with a positive return.
+  hitRate: number;
+  count: number;
+}
+
+export interface YearRow {
+  year: number;
+  // Indexed by month (0 = Jan); null when the history does not cover that month.
+  months: (number | null)[];
+  total: number;
+  // True when the history does not cover the whole year.
+  partial: boolean;
+}
+
+export interface Seasonality {
+  years: YearRow[];
+  monthStats: (SeasonalityStats | null)[];
+  // Indexed Mon..Fri; only meaningful for daily bars.
+  weekdayStats: (SeasonalityStats | null)[];
+}
+
+const summarize = (values: number[]): SeasonalityStats | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return {
+    mean: values.reduce((a, b) => a + b, 0) / values.length,
+    median: sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2,
+    hitRate: values.filter(v => v > 0).length / values.length,
+    count: values.length,
+  };
+};
+
+// Calendar fields come from the date as written, so exchange-local dates stay on their day.
+const calendarOf = (date: string) => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return { year, month: month - 1, weekday: (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7 };
+};
+
+// Each month's return runs from the last close of the previous month to the last close of
+// the month; the first month is measured from the first close available.
+export const computeSeasonality = (bars: StockData[], basis: ReturnBasis): Seasonality => {
+  const monthEnds: { year: number; month: number; close: number }[] = [];
+  const weekdayReturns: number[][] = WEEKDAY_LABELS.map(() => []);
+  bars.forEach((bar, i) => {
+    const { year, month, weekday } = calendarOf(bar.Date);
+    const close = basisClose(bar, basis);
+    const last = monthEnds[monthEnds.length - 1];
+    if (last && last.year === year && last.month === month) last.close = close;
+    else monthEnds.push({ year, month, close });
+    if (i > 0 && weekday < 5) {
+      const prev = basisClose(bars[i - 1], basis);
+      if (prev > 0) weekdayReturns[weekday].push(close / prev - 1);
+    }
+  });
+
+  const firstClose = bars.length > 0 ? basisClose(bars[0], basis) : 0;
+  const rows = new Map<number, YearRow>();
+  const monthReturns: number[][] = MONTH_LABELS.map(() => []);
+  monthEnds.forEach((end, i) => {
+    const base = i === 0 ? firstClose : monthEnds[i - 1].close;
+    if (!rows.has(end.year)) rows.set(end.year, { year: end.year, months: MONTH_LABELS.map(() => null), total: 0, partial: false });
+    if (base <= 0) return;
+    const value = end.close / base - 1;
+    rows.get(end.year)!.months[end.month] = value;
+    monthReturns[end.month].push(value);
+  });
+
+  // The first year is partial too: its first month starts from the first close, not a month end.
+  const years = Array.from(rows.values());
+  years.forEach((row, i) => {
+    row.total = row.months.reduce<number>((acc, r) => acc * (1 + (r ?? 0)), 1) - 1;
+    row.partial = i === 0 || row.months.some(r => r === null);
+  });
+
+  return {
+    years,
+    monthStats: monthReturns.map(summarize),
+    weekdayStats: weekdayReturns.map(summarize),
+  };
+};
@@ -1,145 +1,359 @@
-import { StockData } from '../types';
+import { CorporateActions, DataPayloads, DataType, NewsArticle, StockData, ValidationWarning } from '../types';
+import { getActiveProvider, HistoryParams, MarketDataProvider, sliceHistoryRows } from './marketDataProvider';
+import { isAbortError, mapWithConcurrency, throwIfAborted } from './http';
+import {
+  buildCacheKey,
+  CacheEntry,
+  CacheKeyParts,
+  getTtl,
+  MAX_STALE_AGE,
+  readCacheEntry,
+  writeCacheEntry,
+} from './responseCache';
+import { validateResponse } from './responseValidation';
+import { alignHistories, AlignmentOptions, DEFAULT_ALIGNMENT } from './historyAlignment';
+import { applyCorporateActions } from './priceAdjustments';
+import { isIntradayInterval } from './marketSessions';
+import { getLocalDataset, isLocalSymbol, LocalDataset } from './localDatasets';
 
-// Direct API (no public CORS proxy)
-const API_BASE = 'https://yf-api-c0nm.onrender.com';
+const loadFromProvider = (
+  provider: MarketDataProvider,
+  ticker: string,
+  dataType: DataType,
+  period: string,
+  interval: string,
+  range: { start?: string; end?: string; prepost?: boolean },
+  signal?: AbortSignal
+): Promise<unknown> => {
+  switch (dataType) {
+    case 'history':
+      return provider.history(ticker, { period, interval, ...range }, signal);
+    case 'info':
+      return provider.info(ticker, signal);
+    case 'news':
+      return provider.news(ticker, signal);
+    case 'actions':
+      return provider.actions(ticker, signal);
+    case 'financials':
+      return provider.financials(ticker, signal);
+    case 'recommendations':
+      return provider.recommendations(ticker, signal);
+    case 'holders':
+      return provider.holders(ticker, signal);
+    default:
+      return Promise.reject(new Error(`Unsupported data type '${dataType}'.`));
+  }
+};
+
+export interface FetchResult<T = DataPayloads[DataType]> {
+  // Validated and normalized payload (see services/responseValidation.ts).
+  data: T;
+  // Fields that were malformed in the raw payload and had to be coerced or dropped.
+  warnings: ValidationWarning[];
+  // Epoch ms when the payload was retrieved from the provider.
+  asOf: number;
+  fromCache: boolean;
+  // True when a cached payload past its TTL was served (revalidation may be in flight).
+  stale: boolean;
+  // Set when the ticker is an imported CSV dataset rather than provider data.
+  importedFrom?: string;
+}
 
-export const fetchStockData = async (
+export interface FetchOptions<T = DataPayloads[DataType]> {
+  // Cancels the request (including pending retries); the promise rejects with an AbortError.
+  signal?: AbortSignal;
+  // Skip the cache read and always hit the provider (the response is still cached).
+  forceRefresh?: boolean;
+  // Called with the fresh payload after a stale cache entry was served and revalidated.
+  onRevalidate?: (result: FetchResult<T>) => void;
+  // Explicit history window (YYYY-MM-DD, both inclusive); overrides `period` when set.
+  start?: string;
+  end?: string;
+  // Include pre- and post-market bars for intraday history.
+  prepost?: boolean;
+}
+
+const buildResult = <K extends DataType>(
+  dataType: K,
+  symbol: string,
+  raw: unknown,
+  asOf: number,
+  fromCache: boolean,
+  stale: boolean
+): FetchResult<DataPayloads[K]> => {
+  const { data, warnings } = validateResponse(dataType, raw);
+  if (dataType === 'history' && Array.isArray(data) && data.length === 0) {
+    throw new Error(`No usable price history for ${symbol}: every bar returned by the source was malformed.`);
+  }
+  return { data, warnings, asOf, fromCache, stale };
+};
+
+// Imported datasets only carry price history and never touch the provider or the cache.
+const fromLocalDataset = (dataset: LocalDataset, dataType: DataType, params: HistoryParams): FetchResult<StockData[]> => {
+  if (dataType !== 'history') {
+    throw new Error(`${dataset.symbol} is an imported dataset (${dataset.fileName}); only price history is available.`);
+  }
+  const data = sliceHistoryRows(dataset.rows, params);
+  if (data.length === 0) {
+    throw new Error(`The imported dataset ${dataset.symbol} has no bars in the selected period.`);
+  }
+  return { data, warnings: dataset.warnings, asOf: dataset.importedAt, fromCache: false, stale: false, importedFrom: dataset.fileName };
+};
+
+export const fetchStockData = async <K extends DataType>(
   ticker: string,
-  dataType: string,
+  dataType: K,
   period?: string,
-  interval?: string
-): Promise<{ data: any }> => {
-  let endpoint = `/ticker/${ticker.toUpperCase()}/${dataType}`;
-
-  if (dataType === 'history') {
-    const queryPeriod = period || '1y';
-    const queryInterval = interval || '1d';
-    endpoint += `?period=${queryPeriod}&interval=${queryInterval}`;
-  }
+  interval?: string,
+  options: FetchOptions<DataPayloads[K]> = {}
+): Promise<FetchResult<DataPayloads[K]>> => {
+  const symbol = ticker.toUpperCase();
+  const provider = getActiveProvider();
+  const isHistory = dataType === 'history';
+  const queryPeriod = period || '1y';
+  const queryInterval = interval || '1d';
 
-  const API_URL = `${API_BASE}${endpoint}`;
+  const localDataset = getLocalDataset(symbol);
+  if (localDataset) {
+    // Only history is served (anything else throws), so the payload is StockData[].
+    return fromLocalDataset(localDataset, dataType, {
+      period: queryPeriod,
+      interval: queryInterval,
+      ...(options.start ? { start: options.start, end: options.end } : {}),
+    }) as FetchResult<DataPayloads[K]>;
+  }
+  if (isLocalSymbol(symbol)) {
+    throw new Error(`No imported dataset is named ${symbol}. Import it under Settings → Local Data.`);
+  }
 
-  try {
-    const response = await fetch(API_URL);
-
-    if (!response.ok) {
-      let errorMessage = `API request failed: ${response.statusText}`;
-      try {
-        const errorJson = await response.json();
-        if (errorJson.detail) errorMessage = errorJson.detail;
-      } catch {}
-      throw new Error(errorMessage);
-    }
+  const prepost = isHistory && !!options.prepost && isIntradayInterval(queryInterval);
+  const range = {
+    ...(isHistory && options.start ? { start: options.start, end: options.end } : {}),
+    ...(prepost ? { prepost } : {}),
+  };
+  const keyParts: CacheKeyParts = {
+    provider: provider.id,
+    ticker: symbol,
+    dataType,
+    period: isHistory ? (range.start ? `${range.start}..${range.end ?? ''}` : queryPeriod) : '',
+    interval: isHistory ? `${queryInterval}${prepost ? '+prepost' : ''}` : '',
+  };
+  const cacheKey = buildCacheKey(keyParts);
 
-    const data: any = await response.json();
+  const fetchFresh = async (signal?: AbortSignal): Promise<FetchResult<DataPayloads[K]>> => {
+    const data = await loadFromProvider(provider, symbol, dataType, queryPeriod, queryInterval, range, signal);
 
     if (!data || (Array.isArray(data) && data.length === 0)) {
       throw new Error(
-        `No data found for symbol ${ticker.toUpperCase()} with data type '${dataType}'. It may be an invalid ticker or data type combination.`
+        `No data found for symbol ${symbol} with data type '${dataType}'. It may be an invalid ticker or data type combination.`
       );
     }
 
-    return { data };
+    // Validate before caching so an unusable payload is never served again from the cache.
+    const result = buildResult(dataType, symbol, data, Date.now(), false, false);
+    const entry = await writeCacheEntry(keyParts, data);
+    return { ...result, asOf: entry.storedAt };
+  };
+
+  const fromCacheEntry = (entry: CacheEntry, stale: boolean): FetchResult<DataPayloads[K]> =>
+    buildResult(dataType, symbol, entry.data, entry.storedAt, true, stale);
+
+  try {
+    const cached = options.forceRefresh ? undefined : await readCacheEntry(cacheKey);
+    throwIfAborted(options.signal);
+    if (!cached) return await fetchFresh(options.signal);
+
+    const age = Date.now() - cached.storedAt;
+    if (age <= getTtl(dataType, keyParts.interval, keyParts.period)) return fromCacheEntry(cached, false);
+
+    if (age <= MAX_STALE_AGE) {
+      // Stale-while-revalidate: answer from cache now, refresh in the background. The refresh
+      // is not tied to the caller's signal so the cache still updates if the view changes.
+      fetchFresh()
+        .then(result => options.onRevalidate?.(result))
+        .catch(error => console.warn(`Background revalidation of ${dataType} for ${symbol} failed:`, error));
+      return fromCacheEntry(cached, true);
+    }
+
+    try {
+      return await fetchFresh(options.signal);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn(`Serving expired cache for ${dataType} of ${symbol} after fetch failure:`, error);
+      return fromCacheEntry(cached, true);
+    }
   } catch (error) {
-    console.error(`Failed to fetch ${dataType} for ${ticker}:`, error);
+    if (!isAbortError(error)) console.error(`Failed to fetch ${dataType} for ${ticker}:`, error);
     throw error;
   }
 };
 
-export const fetchMultipleStockHistories = async (
-  tickers: string[],
-  period: string,
-  interval: string
-): Promise<{ [ticker: string]: StockData[] }> => {
-  const promises = tickers.map(ticker =>
-    fetchStockData(ticker, 'history', period, interval)
-      .then(response => ({
-        status: 'fulfilled' as const,
-        ticker,
-        data: response.data as StockData[],
-      }))
-      .catch(error => ({
-        status: 'rejected' as const,
-        ticker,
-        reason: error.message,
-      }))
-  );
+// Tickers without an actions endpoint (indices, FX, most ETFs on some sources) simply
+// have nothing to adjust for.
+const fetchActionsOrEmpty = async (ticker: string, signal?: AbortSignal): Promise<CorporateActions> => {
+  try {
+    const { data } = await fetchStockData(ticker, 'actions', undefined, undefined, { signal });
+    return data;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    return { dividends: {}, splits: {} };
+  }
+};
 
-  const results = await Promise.all(promises);
+const fetchNewsOrEmpty = async (ticker: string, signal?: AbortSignal): Promise<NewsArticle[]> => {
+  try {
+    const { data } = await fetchStockData(ticker, 'news', undefined, undefined, { signal });
+    return data.news ?? [];
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    return [];
+  }
+};
 
-  const successfulFetches: { [ticker: string]: StockData[] } = {};
-  const failedTickers: { ticker: string; reason: string }[] = [];
+// Corporate actions and headlines to annotate a price history with. Either part is empty
+// when the source has none (or the ticker is an imported dataset); only aborts reject.
+export const fetchHistoryEvents = async (
+  ticker: string,
+  signal?: AbortSignal
+): Promise<{ actions: CorporateActions; news: NewsArticle[] }> => {
+  const [actions, news] = await Promise.all([fetchActionsOrEmpty(ticker, signal), fetchNewsOrEmpty(ticker, signal)]);
+  return { actions, news };
+};
 
-  results.forEach(result => {
-    if (result.status === 'fulfilled') successfulFetches[result.ticker] = result.data;
-    else failedTickers.push({ ticker: result.ticker, reason: result.reason });
+// IANA zone the ticker trades in (e.g. 'America/New_York'), from the cached profile.
+// Undefined when the source has no profile; intraday timestamps then speak for themselves.
+export const fetchExchangeTimeZone = async (ticker: string, signal?: AbortSignal): Promise<string | undefined> => {
+  try {
+    const { data } = await fetchStockData(ticker, 'info', undefined, undefined, { signal });
+    return data.exchangeTimezoneName;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    return undefined;
+  }
+};
+
+const adjustHistory = (history: StockData[], actions: CorporateActions): StockData[] =>
+  applyCorporateActions(
+    [...history].sort((a, b) => new Date(a.Date).getTime() - new Date(b.Date).getTime()),
+    actions
+  );
+
+// History (ascending) with split-adjusted `PriceReturnClose` and dividend-reinvested
+// `TotalReturnClose` columns built from the actions endpoint.
+export const fetchAdjustedHistory = async (
+  ticker: string,
+  period: string,
+  interval: string,
+  options: FetchOptions<StockData[]> = {}
+): Promise<FetchResult<StockData[]>> => {
+  // Imported datasets bring their own adjusted closes (or default them to the raw close).
+  if (getLocalDataset(ticker)) return fetchStockData(ticker, 'history', period, interval, options);
+
+  const actionsPromise = fetchActionsOrEmpty(ticker, options.signal);
+  const historyPromise = fetchStockData(ticker, 'history', period, interval, {
+    ...options,
+    onRevalidate: options.onRevalidate
+      ? result => {
+          actionsPromise
+            .then(actions => options.onRevalidate!({ ...result, data: adjustHistory(result.data, actions) }))
+            .catch(() => {});
+        }
+      : undefined,
   });
 
-  if (failedTickers.length > 0) {
-    const errorDetails = failedTickers.map(f => `${f.ticker}`).join(', ');
-    throw new Error(`Failed to fetch history for: ${errorDetails}. Please check the tickers.`);
-  }
+  const [history, actions] = await Promise.all([historyPromise, actionsPromise]);
+  return { ...history, data: adjustHistory(history.data, actions) };
+};
 
-  if (Object.keys(successfulFetches).length === 0) return {};
+export interface MultipleHistoriesOptions {
+  signal?: AbortSignal;
+  // Maximum number of history requests in flight at once.
+  concurrency?: number;
+  alignment?: AlignmentOptions;
+  // When set, histories carry PriceReturnClose/TotalReturnClose built from corporate actions.
+  adjust?: boolean;
+  // Explicit window (YYYY-MM-DD, both inclusive); overrides `period` when set.
+  start?: string;
+  end?: string;
+}
 
-  const tickerKeys = Object.keys(successfulFetches);
+export interface HistoryFetchFailure {
+  ticker: string;
+  reason: string;
+}
 
-  const allDatesSet = new Set<string>();
-  for (const ticker of tickerKeys) {
-    successfulFetches[ticker].forEach(d => allDatesSet.add(d.Date));
-  }
-  const sortedDates = Array.from(allDatesSet).sort(
-    (a, b) => new Date(a).getTime() - new Date(b).getTime()
-  );
+export interface MultipleHistoriesResult {
+  // Aligned histories for every ticker that loaded.
+  histories: { [ticker: string]: StockData[] };
+  // Tickers that could not be loaded; the rest of the portfolio is still returned.
+  failures: HistoryFetchFailure[];
+  // Number of synthesized (forward-filled) bars per ticker, and their dates.
+  filledBars: { [ticker: string]: number };
+  filledDates: { [ticker: string]: string[] };
+  alignment: AlignmentOptions;
+}
 
-  const forwardFilledData: { [ticker: string]: StockData[] } = {};
+const DEFAULT_HISTORY_CONCURRENCY = 4;
 
-  for (const ticker of tickerKeys) {
-    const tickerHistory = successfulFetches[ticker].sort(
-      (a, b) => new Date(a.Date).getTime() - new Date(b.Date).getTime()
-    );
-    const priceMap = new Map(tickerHistory.map(d => [d.Date, d]));
-    const newHistory: StockData[] = [];
-    let lastKnownData: StockData | null = null;
-
-    for (const date of sortedDates) {
-      if (priceMap.has(date)) {
-        const currentData = priceMap.get(date)!;
-        newHistory.push(currentData);
-        lastKnownData = currentData;
-      } else if (lastKnownData) {
-        newHistory.push({ ...lastKnownData, Date: date, Volume: 0 });
-      }
+export const fetchMultipleStockHistories = async (
+  tickers: string[],
+  period: string,
+  interval: string,
+  options: MultipleHistoriesOptions = {}
+): Promise<MultipleHistoriesResult> => {
+  const alignment = options.alignment ?? DEFAULT_ALIGNMENT;
+  const results = await mapWithConcurrency(
+    tickers,
+    options.concurrency ?? DEFAULT_HISTORY_CONCURRENCY,
+    ticker => {
+      const fetchOptions: FetchOptions<StockData[]> = { signal: options.signal, start: options.start, end: options.end };
+      return (options.adjust
+        ? fetchAdjustedHistory(ticker, period, interval, fetchOptions)
+        : fetchStockData(ticker, 'history', period, interval, fetchOptions))
+          .then(response => ({
+            status: 'fulfilled' as const,
+            ticker,
+            data: response.data,
+          }))
+          .catch(error => {
+            if (isAbortError(error)) throw error;
+            return {
+              status: 'rejected' as const,
+              ticker,
+              reason: error.message as string,
+            };
+          });
     }
+  );
 
-    forwardFilledData[ticker] = newHistory;
-  }
+  const successfulFetches: { [ticker: string]: StockData[] } = {};
+  const failures: HistoryFetchFailure[] = [];
 
-  let latestStartDate = '';
-  for (const ticker of tickerKeys) {
-    if (forwardFilledData[ticker].length > 0) {
-      const tickerStartDate = forwardFilledData[ticker][0].Date;
-      if (latestStartDate === '' || new Date(tickerStartDate) > new Date(latestStartDate)) {
-        latestStartDate = tickerStartDate;
-      }
-    }
-  }
+  results.forEach(result => {
+    if (result.status === 'fulfilled') successfulFetches[result.ticker] = result.data;
+    else failures.push({ ticker: result.ticker, reason: result.reason });
+  });
 
-  const alignedData: { [ticker: string]: StockData[] } = {};
-  for (const ticker of tickerKeys) {
-    alignedData[ticker] = forwardFilledData[ticker].filter(
-      d => new Date(d.Date) >= new Date(latestStartDate)
-    );
+  if (Object.keys(successfulFetches).length === 0) {
+    const errorDetails = failures.map(f => `${f.ticker}`).join(', ');
+    throw new Error(`Failed to fetch history for: ${errorDetails}. Please check the tickers.`);
   }
 
-  if (
-    tickerKeys.length === 0 ||
-    (tickerKeys.length > 0 && alignedData[tickerKeys[0]].length < 2)
-  ) {
+  const { histories, filledDates } = alignHistories(successfulFetches, alignment, interval);
+  const tickerKeys = Object.keys(histories);
+
+  if (tickerKeys.length === 0 || Math.min(...tickerKeys.map(t => histories[t].length)) < 2) {
     throw new Error(
-      'Not enough overlapping historical data for the selected tickers to calculate returns, even after forward-filling.'
+      alignment.policy === 'forward-fill'
+        ? 'Not enough overlapping historical data for the selected tickers to calculate returns, even after forward-filling.'
+        : 'Not enough overlapping historical data for the selected tickers to calculate returns.'
     );
   }
 
-  return alignedData;
+  const filledBars: MultipleHistoriesResult['filledBars'] = {};
+  tickerKeys.forEach(t => {
+    filledBars[t] = filledDates[t].length;
+  });
+
+  return { histories, failures, filledBars, filledDates, alignment };
 };
@@ -0,0 +1,224 @@
+// Stress scenarios for the Risk Engine portfolio: replays of historical windows and
+// hypothetical shocks (per ticker, or to a benchmark mapped through betas). Saved scenario
+// definitions live in localStorage.
+
+export interface HistoricalScenario {
+  id: string;
+  name: string;
+  kind: 'historical';
+  // YYYY-MM-DD, both inclusive.
+  start: string;
+  end: string;
+}
+
+export interface HypotheticalScenario {
+  id: string;
+  name: string;
+  kind: 'hypothetical';
+  // Move of the benchmark (e.g. -0.2 for -20%), applied to each position times its beta.
+  benchmarkShock: number | null;
+  // Explicit moves per ticker; these override the benchmark mapping.
+  tickerShocks: { [ticker: string]: number };
+}
+
+export type StressScenario = HistoricalScenario | HypotheticalScenario;
+
+export const BUILT_IN_SCENARIOS: StressScenario[] = [
+  { id: 'gfc-2008', name: 'GFC (Sep–Oct 2008)', kind: 'historical', start: '2008-09-01', end: '2008-10-31' },
+  { id: 'covid-2020', name: 'COVID Crash (Feb–Mar 2020)', kind: 'historical', start: '2020-02-19', end: '2020-03-23' },
+  { id: 'rates-2022', name: '2022 Rate Shock', kind: 'historical', start: '2022-01-03', end: '2022-10-12' },
+];
+
+const STORAGE_KEY = 'equity-explorer:stress-scenarios';
+
+export const listSavedScenarios = (): StressScenario[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const persist = (scenarios: StressScenario[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+  } catch {
+    throw new Error('Browser storage is full or unavailable; the saved scenarios could not be updated.');
+  }
+};
+
+// Adds the scenario, replacing a saved one with the same name.
+export const saveScenario = (scenario: StressScenario): StressScenario[] => {
+  const next = [...listSavedScenarios().filter(s => s.name !== scenario.name), scenario];
+  persist(next);
+  return next;
+};
+
+export const deleteScenario = (id: string): StressScenario[] => {
+  const next = listSavedScenarios().filter(s => s.id !== id);
+  persist(next);
+  return next;
+};
+
+// Parses "AAPL:-30, MSFT:-10" (percent moves) into fractional shocks.
+export const parseTickerShocks = (text: string): { [ticker: string]: number } => {
+  const shocks: { [ticker: string]: number } = {};
+  text.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const [ticker, value] = part.split(':').map(s => s.trim());
+    const pct = Number(value);
+    if (!ticker || value === undefined || value === '' || !isFinite(pct)) {
+      throw new Error(`Could not read the shock "${part}"; use TICKER:percent, e.g. AAPL:-30.`);
+    }
+    shocks[ticker.toUpperCase()] = pct / 100;
+  });
+  return shocks;
+};
+
+export const formatTickerShocks = (shocks: { [ticker: string]: number }): string =>
+  Object.entries(shocks).map(([ticker, shock]) => `${ticker}:${Number((shock * 100).toFixed(4))}`).join(', ');
+
+// OLS beta of daily asset returns on benchmark returns over the same days.
+export const estimateBeta = (asset: number[], benchmark: number[]): number | null => {
+  const n = Math.min(asset.length, benchmark.length);
+  if (n < 20) return null;
+  const meanA = asset.slice(0, n).reduce((a, b) => a + b, 0) / n;
+  const meanB = benchmark.slice(0, n).reduce((a, b) => a + b, 0) / n;
+  let covariance = 0, variance = 0;
+  for (let t = 0; t < n; t++) {
+    covariance += (asset[t] - meanA) * (benchmark[t] - meanB);
+    variance += (benchmark[t] - meanB) ** 2;
+  }
+  return variance > 0 ? covariance / variance : null;
+};
+
+export interface StressPosition {
+  ticker: string;
+  weight: number;
+}
+
+// Where a position's scenario move came from.
+export type MoveSource = 'history' | 'shock' | 'beta' | 'unshocked' | 'missing';
+
+export interface PositionStressResult extends StressPosition {
+  move: number | null;
+  // Change in position value as a fraction of the starting portfolio value.
+  contribution: number;
+  source: MoveSource;
+}
+
+export interface StressResult {
+  scenario: StressScenario;
+  pnlPct: number;
+  // Worst daily portfolio return within a historical window.
+  worstDay: { date: string; pct: number } | null;
+  benchmarkMove: number | null;
+  positions: PositionStressResult[];
+}
+
+const positionResult = (position: StressPosition, move: number | null, source: MoveSource): PositionStressResult => ({
+  ...position,
+  move,
+  contribution: move === null ? 0 : position.weight * move,
+  source,
+});
+
+export const applyHypotheticalScenario = (
+  scenario: HypotheticalScenario,
+  positions: StressPosition[],
+  betas: { [ticker: string]: number | null }
+): StressResult => {
+  const results = positions.map(position => {
+    if (scenario.tickerShocks[position.ticker] !== undefined) {
+      return positionResult(position, scenario.tickerShocks[position.ticker], 'shock');
+    }
+    const beta = betas[position.ticker];
+    if (scenario.benchmarkShock !== null && beta !== null && beta !== undefined) {
+      return positionResult(position, beta * scenario.benchmarkShock, 'beta');
+    }
+    // With no benchmark shock the scenario leaves this position alone.
+    return scenario.benchmarkShock === null ? positionResult(position, 0, 'unshocked') : positionResult(position, null, 'missing');
+  });
+  return {
+    scenario,
+    pnlPct: results.reduce((sum, p) => sum + p.contribution, 0),
+    worstDay: null,
+    benchmarkMove: scenario.benchmarkShock,
+    positions: results,
+  };
+};
+
+// Closes for one instrument, ascending, covering a few days before the window so the last
+// close before it can serve as the starting price.
+export type CloseSeries = { Date: string; Close: number }[];
+
+// Last close before `start` and the closes on each date of `dates` (carrying the latest
+// close forward over days without a bar). Null when the series has no bar before the window.
+const pathOnDates = (series: CloseSeries, start: string, dates: string[]): { base: number; closes: number[] } | null => {
+  const before = series.filter(bar => bar.Date.slice(0, 10) < start);
+  if (before.length === 0) return null;
+  const base = before[before.length - 1].Close;
+  const byDay = new Map(series.map(bar => [bar.Date.slice(0, 10), bar.Close]));
+  let last = base;
+  const closes = dates.map(day => {
+    last = byDay.get(day) ?? last;
+    return last;
+  });
+  return base > 0 ? { base, closes } : null;
+};
+
+// Replays the window with the current weights held from the last close before it (no
+// rebalancing). Positions without prices for the window move with the benchmark times their
+// beta when both are known.
+export const replayHistoricalScenario = (
+  scenario: HistoricalScenario,
+  positions: StressPosition[],
+  closes: { [ticker: string]: CloseSeries },
+  benchmark: CloseSeries | null,
+  betas: { [ticker: string]: number | null }
+): StressResult => {
+  const inWindow = (date: string) => date.slice(0, 10) >= scenario.start && date.slice(0, 10) <= scenario.end;
+  const days = Array.from(new Set<string>(
+    [...Object.values(closes), ...(benchmark ? [benchmark] : [])].flatMap(series => series.filter(bar => inWindow(bar.Date)).map(bar => bar.Date.slice(0, 10)))
+  )).sort();
+  if (days.length === 0) throw new Error(`No prices were found between ${scenario.start} and ${scenario.end}.`);
+
+  const benchmarkPath = benchmark ? pathOnDates(benchmark, scenario.start, days) : null;
+  const benchmarkRelative = benchmarkPath ? benchmarkPath.closes.map(c => c / benchmarkPath.base) : null;
+
+  // Value of each position over the window per unit of starting weight.
+  const relativePaths: { [ticker: string]: { path: number[]; source: MoveSource } | null } = {};
+  positions.forEach(({ ticker }) => {
+    const path = closes[ticker] ? pathOnDates(closes[ticker], scenario.start, days) : null;
+    const beta = betas[ticker];
+    if (path) relativePaths[ticker] = { path: path.closes.map(c => c / path.base), source: 'history' };
+    else if (benchmarkRelative && beta !== null && beta !== undefined) {
+      relativePaths[ticker] = { path: benchmarkRelative.map(b => 1 + beta * (b - 1)), source: 'beta' };
+    } else relativePaths[ticker] = null;
+  });
+
+  const value = days.map((_, t) => positions.reduce((sum, { ticker, weight }) => {
+    const entry = relativePaths[ticker];
+    return sum + weight * (entry ? entry.path[t] : 1);
+  }, 0));
+  let worstDay: StressResult['worstDay'] = null;
+  const startValue = positions.reduce((sum, p) => sum + p.weight, 0);
+  value.forEach((v, t) => {
+    const previous = t === 0 ? startValue : value[t - 1];
+    const pct = previous !== 0 ? v / previous - 1 : 0;
+    if (!worstDay || pct < worstDay.pct) worstDay = { date: days[t], pct };
+  });
+
+  const results = positions.map(position => {
+    const entry = relativePaths[position.ticker];
+    return entry ? positionResult(position, entry.path[entry.path.length - 1] - 1, entry.source) : positionResult(position, null, 'missing');
+  });
+  return {
+    scenario,
+    pnlPct: results.reduce((sum, p) => sum + p.contribution, 0),
+    worstDay,
+    benchmarkMove: benchmarkRelative ? benchmarkRelative[benchmarkRelative.length - 1] - 1 : null,
+    positions: results,
+  };
+};
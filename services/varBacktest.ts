@@ -0,0 +1,230 @@
+// Rolling out-of-sample VaR backtest: re-estimates one-day VaR every day from the preceding
+// window, counts exceptions, and scores them with the Kupiec proportion-of-failures test,
+// Christoffersen's independence and conditional coverage tests, and the Basel traffic light.
+
+import { fitStudentT, TestResult } from './returnDiagnostics';
+import {
+  calculateVaRAndES,
+  filteredHistoricalReturns,
+  monteCarloReturns,
+  MonteCarloOptions,
+  normalVaRAndES,
+  portfolioMoments,
+  studentTVaRAndES,
+  VaRMethod,
+} from './riskModels';
+import { chiSquareSurvival, logGamma } from './statistics';
+import { sleep } from './http';
+import { conditionalVariances, filterParams, GarchParams, sampleVariance, VolatilityFilterOptions } from './volatilityModels';
+
+export interface BacktestPoint {
+  date: string;
+  // Realized portfolio return on `date`, and the VaR forecast made the day before (positive loss).
+  realized: number;
+  var: number;
+  exception: boolean;
+}
+
+export type BaselZone = 'green' | 'yellow' | 'red';
+
+export interface MethodBacktest {
+  method: VaRMethod;
+  points: BacktestPoint[];
+  exceptions: number;
+  expected: number;
+  kupiec: TestResult;
+  independence: TestResult;
+  conditionalCoverage: TestResult;
+  zone: BaselZone;
+}
+
+// Simulating every day is the expensive part of the backtest, so its path count is capped.
+export const MAX_BACKTEST_PATHS = 5000;
+
+// x·ln(y), taken as 0 when x is 0 so empty cells drop out of the likelihoods.
+const xlog = (x: number, y: number) => (x === 0 ? 0 : x * Math.log(y));
+
+// Kupiec POF: are there as many exceptions as the VaR level promises? Chi-square, 1 df.
+export const kupiecTest = (exceptions: number, observations: number, p: number): TestResult => {
+  const rate = exceptions / observations;
+  const nullLogLik = xlog(observations - exceptions, 1 - p) + xlog(exceptions, p);
+  const altLogLik = xlog(observations - exceptions, 1 - rate) + xlog(exceptions, rate);
+  const statistic = Math.max(0, -2 * (nullLogLik - altLogLik));
+  return { statistic, pValue: chiSquareSurvival(statistic, 1), df: 1 };
+};
+
+// Christoffersen independence: is an exception more likely the day after another one?
+// Chi-square, 1 df, from the first-order transition counts of the exception sequence.
+export const independenceTest = (hits: boolean[]): TestResult => {
+  let n00 = 0, n01 = 0, n10 = 0, n11 = 0;
+  for (let t = 1; t < hits.length; t++) {
+    if (hits[t - 1]) { if (hits[t]) n11++; else n10++; }
+    else if (hits[t]) n01++; else n00++;
+  }
+  const pi0 = n00 + n01 > 0 ? n01 / (n00 + n01) : 0;
+  const pi1 = n10 + n11 > 0 ? n11 / (n10 + n11) : 0;
+  const pi = (n01 + n11) / Math.max(1, n00 + n01 + n10 + n11);
+  const nullLogLik = xlog(n00 + n10, 1 - pi) + xlog(n01 + n11, pi);
+  const altLogLik = xlog(n00, 1 - pi0) + xlog(n01, pi0) + xlog(n10, 1 - pi1) + xlog(n11, pi1);
+  const statistic = Math.max(0, -2 * (nullLogLik - altLogLik));
+  return { statistic, pValue: chiSquareSurvival(statistic, 1), df: 1 };
+};
+
+const binomialCdf = (k: number, n: number, p: number): number => {
+  let sum = 0;
+  for (let i = 0; i <= k; i++) {
+    sum += Math.exp(logGamma(n + 1) - logGamma(i + 1) - logGamma(n - i + 1) + xlog(i, p) + xlog(n - i, 1 - p));
+  }
+  return Math.min(1, sum);
+};
+
+// Basel zones by the cumulative binomial probability of the exception count: green below
+// 95%, red from 99.99%. For 250 days at 99% that is green 0-4, yellow 5-9, red 10+.
+export const baselZone = (exceptions: number, observations: number, p: number): BaselZone => {
+  const cumulative = binomialCdf(exceptions, observations, p);
+  if (cumulative < 0.95) return 'green';
+  return cumulative < 0.9999 ? 'yellow' : 'red';
+};
+
+// One-day VaR forecast from a window of aligned asset returns and the matching portfolio returns.
+type Forecaster = (assetWindow: number[][], portfolioWindow: number[], day: number) => number;
+
+// Days between refits of the volatility filter in the backtest.
+const REFIT_DAYS = 21;
+
+// Filtered historical simulation forecasts. Fitting GARCH every day is too slow, so the filter
+// is refitted every REFIT_DAYS on the window before the refit day; in between, the variance
+// recursion started at that window simply rolls forward with each new return.
+const filteredForecaster = (
+  assetReturns: number[][],
+  weights: number[],
+  confidenceLevel: number,
+  window: number,
+  monteCarlo: MonteCarloOptions,
+  volatilityFilter: VolatilityFilterOptions
+): Forecaster => {
+  let fit: { from: number; until: number; params: GarchParams[]; variances: number[][] } | null = null;
+  return (_, __, day) => {
+    if (!fit || day >= fit.until) {
+      const from = day - window;
+      const until = day + REFIT_DAYS;
+      const params = assetReturns.map(series => filterParams(series.slice(from, day), volatilityFilter));
+      // The recursion only reads returns before each day, so running it past the refit day
+      // does not look ahead.
+      const variances = assetReturns.map((series, i) =>
+        conditionalVariances(series.slice(from, until), params[i], sampleVariance(series.slice(from, day))));
+      fit = { from, until, params, variances };
+    }
+    const { from, params, variances } = fit;
+    const filtered = assetReturns.map((series, i) => ({
+      params: params[i],
+      residuals: series.slice(day - window, day).map((r, k) => {
+        const variance = variances[i][day - window + k - from];
+        return variance > 0 ? r / Math.sqrt(variance) : 0;
+      }),
+      forecast: variances[i][day - from],
+    }));
+    return calculateVaRAndES(filteredHistoricalReturns(filtered, weights, 1, monteCarlo), confidenceLevel).var;
+  };
+};
+
+const forecasters = (
+  assetReturns: number[][],
+  weights: number[],
+  confidenceLevel: number,
+  window: number,
+  monteCarlo: MonteCarloOptions,
+  volatilityFilter: VolatilityFilterOptions
+): { [method in VaRMethod]: Forecaster } => ({
+  historical: (_, portfolioWindow) => calculateVaRAndES(portfolioWindow, confidenceLevel).var,
+  filtered_historical: filteredForecaster(assetReturns, weights, confidenceLevel, window, monteCarlo, volatilityFilter),
+  normal: assetWindow => {
+    const { mu, sigma } = portfolioMoments(assetWindow, weights);
+    return normalVaRAndES(mu, sigma, confidenceLevel, 1).var;
+  },
+  student_t: (assetWindow, portfolioWindow) => {
+    const { mu, sigma } = portfolioMoments(assetWindow, weights);
+    const { df } = fitStudentT(portfolioWindow, mu, sigma);
+    return studentTVaRAndES(mu, sigma, df, confidenceLevel, 1).var;
+  },
+  // A fresh, reproducible stream per day: the seed is offset by the day index.
+  monte_carlo: (assetWindow, _, day) => calculateVaRAndES(
+    monteCarloReturns(assetWindow, weights, 1, { paths: Math.min(monteCarlo.paths, MAX_BACKTEST_PATHS), seed: monteCarlo.seed + day }),
+    confidenceLevel
+  ).var,
+});
+
+// Fewest out-of-sample days a backtest is run on.
+const MIN_BACKTEST_DAYS = 20;
+
+// Main-thread time a backtest may take before it yields so the page stays responsive.
+const SLICE_MS = 15;
+
+// Why a backtest cannot be run on `days` returns with this window, or null.
+export const backtestDataError = (days: number, window: number): string | null =>
+  days - window < MIN_BACKTEST_DAYS
+    ? `The backtest needs at least ${window + MIN_BACKTEST_DAYS} days of returns; only ${days} are available.`
+    : null;
+
+export interface BacktestRunOptions {
+  signal?: AbortSignal;
+  // Share of the forecasts done so far, from 0 to 1.
+  onProgress?: (fraction: number) => void;
+}
+
+// `assetReturns` holds one aligned daily return series per asset and `dates` the date of each
+// return. Every day after the first `window` is forecast from the `window` days before it. The
+// work is done in short slices between which the browser can paint and handle input.
+export const runVaRBacktest = async (
+  dates: string[],
+  assetReturns: number[][],
+  weights: number[],
+  confidenceLevel: number,
+  window: number,
+  monteCarlo: MonteCarloOptions,
+  volatilityFilter: VolatilityFilterOptions,
+  methods: VaRMethod[],
+  { signal, onProgress }: BacktestRunOptions = {}
+): Promise<MethodBacktest[]> => {
+  const n = dates.length;
+  const dataError = backtestDataError(n, window);
+  if (dataError) throw new Error(dataError);
+  const portfolioReturns = dates.map((_, t) => assetReturns.reduce((sum, series, i) => sum + weights[i] * series[t], 0));
+  const p = 1 - confidenceLevel / 100;
+  const forecast = forecasters(assetReturns, weights, confidenceLevel, window, monteCarlo, volatilityFilter);
+  const total = methods.length * (n - window);
+  let done = 0;
+  let sliceStart = Date.now();
+
+  const results: MethodBacktest[] = [];
+  for (const method of methods) {
+    const points: BacktestPoint[] = [];
+    for (let t = window; t < n; t++) {
+      if (Date.now() - sliceStart > SLICE_MS) {
+        onProgress?.(done / total);
+        await sleep(0, signal);
+        sliceStart = Date.now();
+      }
+      const value = forecast[method](assetReturns.map(series => series.slice(t - window, t)), portfolioReturns.slice(t - window, t), t);
+      points.push({ date: dates[t], realized: portfolioReturns[t], var: value, exception: portfolioReturns[t] < -value });
+      done++;
+    }
+    const hits = points.map(point => point.exception);
+    const exceptions = hits.filter(Boolean).length;
+    const kupiec = kupiecTest(exceptions, points.length, p);
+    const independence = independenceTest(hits);
+    const statistic = kupiec.statistic + independence.statistic;
+    results.push({
+      method,
+      points,
+      exceptions,
+      expected: p * points.length,
+      kupiec,
+      independence,
+      conditionalCoverage: { statistic, pValue: chiSquareSurvival(statistic, 2), df: 2 },
+      zone: baselZone(exceptions, points.length, p),
+    });
+  }
+  onProgress?.(1);
+  return results;
+};
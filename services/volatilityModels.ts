@@ -0,0 +1,93 @@
+// Conditional volatility filters for daily returns: RiskMetrics EWMA and GARCH(1,1) fitted by
+// Gaussian quasi-maximum likelihood. Both share the recursion
+// σ²[t+1] = ω + α·r[t]² + β·σ²[t] (EWMA is ω = 0, α = 1 − λ, β = λ).
+
+export type VolatilityModel = 'ewma' | 'garch';
+
+export const VOLATILITY_MODEL_OPTIONS: { value: VolatilityModel; label: string }[] = [
+  { value: 'ewma', label: 'EWMA' },
+  { value: 'garch', label: 'GARCH(1,1)' },
+];
+
+export interface VolatilityFilterOptions {
+  model: VolatilityModel;
+  // EWMA decay; ignored for GARCH.
+  lambda: number;
+}
+
+export interface GarchParams {
+  omega: number;
+  alpha: number;
+  beta: number;
+}
+
+export interface FilteredReturns {
+  params: GarchParams;
+  // Returns divided by the volatility forecast made the day before each of them.
+  residuals: number[];
+  // Variance forecast for the day after the last return.
+  forecast: number;
+}
+
+export const sampleVariance = (returns: number[]) => {
+  const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+  return returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / Math.max(1, returns.length - 1);
+};
+
+// The next day's variance from today's return and variance.
+export const nextVariance = ({ omega, alpha, beta }: GarchParams, r: number, variance: number): number =>
+  omega + alpha * r * r + beta * variance;
+
+// Variance forecast for each day (index t uses returns before t) plus the one for the day
+// after the series, seeded with `initial` (the sample variance by default).
+export const conditionalVariances = (returns: number[], params: GarchParams, initial: number = sampleVariance(returns)): number[] => {
+  const variances = [initial];
+  returns.forEach((r, t) => variances.push(nextVariance(params, r, variances[t])));
+  return variances;
+};
+
+// Gaussian log-likelihood up to a constant.
+const logLikelihood = (returns: number[], params: GarchParams, initial: number) => {
+  let variance = initial, total = 0;
+  for (const r of returns) {
+    if (!(variance > 0)) return -Infinity;
+    total -= Math.log(variance) + (r * r) / variance;
+    variance = nextVariance(params, r, variance);
+  }
+  return total / 2;
+};
+
+// Fits α and β on a grid refined around the best point, with ω set by variance targeting
+// (the unconditional variance equals the sample variance).
+export const fitGarch = (returns: number[]): GarchParams => {
+  const target = sampleVariance(returns);
+  const evaluate = (alpha: number, beta: number) => {
+    if (alpha < 0 || beta < 0 || alpha + beta >= 0.999) return -Infinity;
+    return logLikelihood(returns, { omega: target * (1 - alpha - beta), alpha, beta }, target);
+  };
+  let best = { alpha: 0.05, beta: 0.9, value: evaluate(0.05, 0.9) };
+  const search = (alphas: number[], betas: number[]) => {
+    alphas.forEach(alpha => betas.forEach(beta => {
+      const value = evaluate(alpha, beta);
+      if (value > best.value) best = { alpha, beta, value };
+    }));
+  };
+  const steps = (from: number, step: number, count: number) => Array.from({ length: count }, (_, i) => from + i * step);
+  search(steps(0.01, 0.02, 15), steps(0.5, 0.02, 25));
+  search(steps(best.alpha - 0.016, 0.004, 9), steps(best.beta - 0.016, 0.004, 9));
+  return { omega: target * (1 - best.alpha - best.beta), alpha: best.alpha, beta: best.beta };
+};
+
+// Recursion parameters for the chosen filter (GARCH is fitted to `returns`).
+export const filterParams = (returns: number[], { model, lambda }: VolatilityFilterOptions): GarchParams =>
+  model === 'garch' ? fitGarch(returns) : { omega: 0, alpha: 1 - lambda, beta: lambda };
+
+export const filterReturns = (returns: number[], options: VolatilityFilterOptions): FilteredReturns => {
+  const params = filterParams(returns, options);
+  const variances = conditionalVariances(returns, params);
+  return {
+    params,
+    residuals: returns.map((r, t) => (variances[t] > 0 ? r / Math.sqrt(variances[t]) : 0)),
+    forecast: variances[returns.length],
+  };
+};
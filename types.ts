@@ -6,4 +6,136 @@ export interface StockData {
   Low: number;
   Close: number;
   Volume: number;
+  // Present on histories run through applyCorporateActions (services/priceAdjustments.ts).
+  PriceReturnClose?: number;
+  TotalReturnClose?: number;
+}
+
+export interface CompanyOfficer {
+  name?: string;
+  title?: string;
+  [key: string]: unknown;
+}
+
+export interface CompanyProfile {
+  symbol?: string;
+  longName?: string;
+  sector?: string;
+  industry?: string;
+  website?: string;
+  longBusinessSummary?: string;
+  currency?: string;
+  exchangeTimezoneName?: string;
+  marketCap?: number;
+  trailingPE?: number;
+  forwardPE?: number;
+  dividendYield?: number;
+  beta?: number;
+  fiftyTwoWeekHigh?: number;
+  fiftyTwoWeekLow?: number;
+  volume?: number;
+  address1?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  country?: string;
+  phone?: string;
+  overallRisk?: number;
+  boardRisk?: number;
+  compensationRisk?: number;
+  shareHolderRightsRisk?: number;
+  companyOfficers?: CompanyOfficer[];
+  [key: string]: unknown;
+}
+
+export interface NewsThumbnailResolution {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface NewsContent {
+  title: string;
+  summary?: string;
+  pubDate?: string;
+  provider?: { displayName?: string };
+  canonicalUrl?: { url?: string };
+  thumbnail?: { resolutions: NewsThumbnailResolution[] };
+}
+
+export interface NewsArticle {
+  id: string;
+  content: NewsContent;
+}
+
+export interface NewsFeed {
+  news: NewsArticle[];
+}
+
+export interface CorporateActions {
+  dividends: { [date: string]: number };
+  splits: { [date: string]: number };
+}
+
+// One line item of a statement; every other key is a period-end date.
+export interface FinancialStatementRow {
+  index: string;
+  [date: string]: number | string | null;
+}
+
+export interface FinancialStatements {
+  income: FinancialStatementRow[];
+  balance_sheet: FinancialStatementRow[];
+  cashflow: FinancialStatementRow[];
+}
+
+export interface Recommendation {
+  period: string;
+  strongBuy: number;
+  buy: number;
+  hold: number;
+  sell: number;
+  strongSell: number;
+}
+
+export interface MajorHolder {
+  index: string;
+  Value: number;
+}
+
+export interface FundHolder {
+  Holder: string;
+  Shares?: number;
+  'Date Reported'?: string;
+  pctHeld?: number;
+  Value?: number;
+  pctChange?: number;
+  [key: string]: unknown;
+}
+
+export interface HoldersData {
+  major?: MajorHolder[];
+  institutional?: FundHolder[];
+  mutualfund?: FundHolder[];
+}
+
+// Validated payload served for each data type.
+export interface DataPayloads {
+  history: StockData[];
+  info: CompanyProfile;
+  news: NewsFeed;
+  actions: CorporateActions;
+  financials: FinancialStatements;
+  recommendations: Recommendation[];
+  holders: HoldersData;
+}
+
+export type DataType = keyof DataPayloads;
+
+// A problem found while validating a provider payload. Repeated problems on the same
+// field (e.g. one per history row) are folded into a single warning with a count.
+export interface ValidationWarning {
+  field: string;
+  message: string;
+  count: number;
 }
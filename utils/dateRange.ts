@@ -0,0 +1,36 @@
+// Calendar helpers for explicit history windows. Dates are local `YYYY-MM-DD` strings, the
+// format of `<input type="date">` and of the provider `start`/`end` parameters.
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toIsoDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const parseIsoDate = (iso: string): Date => {
+  const [year, month, day] = iso.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const isIsoDate = (value: string | undefined): value is string =>
+  !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(parseIsoDate(value).getTime());
+
+export const todayIso = (): string => toIsoDate(new Date());
+
+export const addDays = (iso: string, days: number): string => {
+  const date = parseIsoDate(iso);
+  date.setDate(date.getDate() + days);
+  return toIsoDate(date);
+};
+
+// Calendar window that contains at least `bars` daily trading bars ending on `asOf`
+// (today by default): 5 sessions per 7 days plus slack for holidays. Callers slice the
+// exact number of bars afterwards, so only the lower bound matters.
+export const lookbackRange = (bars: number, asOf: string = todayIso()): DateRange => {
+  const calendarDays = Math.ceil(bars * 7 / 5 * 1.05) + 10;
+  return { start: addDays(asOf, -calendarDays), end: asOf };
+};